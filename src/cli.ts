@@ -0,0 +1,395 @@
+import * as fs from "fs";
+import * as path from "path";
+import { globSync } from "glob";
+import {
+  ConfigFiles,
+  configFromSettings,
+  IncludeConfig,
+  IncludeEngine,
+  LanguageRules,
+  parseJsonWithComments,
+} from "./core";
+
+/**
+ * The cli module is the command-line entry point of Virtual Include (virtual-include), so that
+ * CI can verify that committed files have no stale include blocks. It uses the headless
+ * IncludeEngine, which applies the same rules as the extension.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ *   virtual-include check [paths...]   reports stale, unexpanded and broken includes
+ *   virtual-include expand [paths...]  rewrites files with stale or unexpanded includes in place
+ *
+ * - Settings are read from .vscode/settings.json in the root directory (--root, defaults to the
+ *   working directory), which may contain comments and trailing commas like any VSCode settings
+ * - The .virtualinclude.json (or .virtualincluderc) files of each file's folders are applied on top
+ *   of the settings, like in the editor (see ConfigFiles); invalid ones are reported and skipped
+ * - Without paths the whole root is walked, skipping node_modules, .git and build output;
+ *   directories given as paths are walked the same way
+ * - Only files containing "virtualInclude" are processed; the language of each file is derived
+ *   from its extension and the "files.associations" setting
+ * - Every problem is printed as file:line: message
+ * - Blocks that were edited by hand (see the contentHashes setting) fail both commands and are
+ *   never overwritten
+ * - Broken markers (see IncludeEngine.checkMarkers), such as a missing end marker, fail both
+ *   commands; their blocks are left alone until they are repaired in the editor
+ *
+ * The exit code is 0 when everything is up to date (check) or could be expanded (expand), 1 when
+ * includes are stale or broken and 2 for invalid arguments or paths.
+ */
+export class Cli {
+  // Directories that never contain documents worth checking
+  private static readonly IGNORED_DIRECTORIES = [
+    "**/node_modules/**",
+    "**/.git/**",
+    "**/dist/**",
+    "**/out/**",
+    "**/.vscode-test/**",
+  ];
+
+  // Languages VSCode knows that the language rules don't need to detect from extensions
+  private static readonly EXTRA_LANGUAGES: Record<string, string> = {
+    ".md": "markdown",
+    ".txt": "plaintext",
+    ".json": "json",
+    ".toml": "toml",
+    ".ini": "ini",
+    ".jsx": "javascriptreact",
+    ".tsx": "typescriptreact",
+    ".dockerfile": "dockerfile",
+  };
+
+  private static readonly USAGE = `Usage: virtual-include <check|expand> [options] [paths...]
+
+Commands:
+  check    Report stale, unexpanded and broken includes
+  expand   Rewrite files with stale or unexpanded includes in place
+
+Options:
+  --root <dir>  Directory with .vscode/settings.json and the files to walk (default: .)
+  --help        Show this help`;
+
+  /**
+   * Runs the CLI.
+   *
+   * @param args The command-line arguments (without node and the script)
+   * @returns number The exit code
+   */
+  public static run(args: string[]): number {
+    const options = this._parseArgs(args);
+    if (!options) {
+      console.error(this.USAGE);
+      return 2;
+    }
+
+    if (options.command === "help") {
+      console.log(this.USAGE);
+      return 0;
+    }
+
+    const missingPath = options.paths.find((p) => !fs.existsSync(p));
+    if (missingPath) {
+      console.error(`No such file or directory: ${missingPath}`);
+      return 2;
+    }
+
+    const settings = this._readSettings(options.root);
+    // Paths starting from the workspace folder (/@/ or ${workspaceFolder}) start from the root
+    const config: IncludeConfig = {
+      ...configFromSettings(settings),
+      workspaceFolder: options.root,
+      workspaceFolders: { [path.basename(options.root)]: options.root },
+    };
+    const engines = new Map<string, IncludeEngine>();
+    const invalidConfigFiles = new Set<string>();
+    const associations = this._getAssociations(settings);
+
+    let failed = false;
+    let outdatedCount = 0;
+    let modifiedCount = 0;
+    let invalidCount = 0;
+    let updatedCount = 0;
+
+    for (const filePath of this._findFiles(options.root, options.paths)) {
+      const text = fs.readFileSync(filePath, "utf8");
+      if (!text.includes("virtualInclude")) {
+        continue;
+      }
+
+      const relativePath = path.relative(options.root, filePath);
+      const engine = this._getEngine(
+        config,
+        filePath,
+        engines,
+        invalidConfigFiles,
+      );
+      const languageId = this._getLanguageId(filePath, associations);
+      const result = engine.process(text, filePath, languageId);
+
+      for (const { directive, status, resolution } of result.includes) {
+        const location = `${relativePath}:${directive.line + 1}`;
+
+        if (status === "selfInclude") {
+          console.warn(
+            `${location}: warning: Cannot include a file in itself: ${directive.includePath}`,
+          );
+          continue;
+        }
+
+        for (const problem of resolution?.problems ?? []) {
+          // Symbols need a language server, so they can't be checked here
+          const isError =
+            problem.severity === "error" &&
+            problem.kind !== "unsupportedSelector";
+          failed = failed || isError;
+          invalidCount += isError ? 1 : 0;
+          console.error(
+            `${location}: ${isError ? "error" : "warning"}: ${problem.message}`,
+          );
+        }
+
+        // Hand-edited blocks are never overwritten, not even by expand
+        if (status === "modified") {
+          failed = true;
+          modifiedCount++;
+          console.error(
+            `${location}: error: Included content of ${directive.includePath} was edited by hand and no longer matches its hash`,
+          );
+        }
+
+        if (
+          options.command === "check" &&
+          (status === "stale" || status === "notExpanded")
+        ) {
+          failed = true;
+          outdatedCount++;
+          console.error(
+            `${location}: error: Include of ${directive.includePath} is ${status === "notExpanded" ? "not expanded" : "out of date"}`,
+          );
+        }
+      }
+
+      // Broken markers need a decision, expand doesn't guess where a block ends
+      for (const problem of engine.checkMarkers(text, filePath, languageId)) {
+        failed = failed || problem.severity === "error";
+        invalidCount += problem.severity === "error" ? 1 : 0;
+        console.error(
+          `${relativePath}:${problem.line + 1}: ${problem.severity}: ${problem.message}`,
+        );
+      }
+
+      if (options.command === "expand" && result.changed) {
+        fs.writeFileSync(filePath, result.text, "utf8");
+        updatedCount++;
+        console.log(`Updated ${relativePath}`);
+      }
+    }
+
+    if (options.command === "check") {
+      const failures = [
+        ...(outdatedCount > 0
+          ? [
+              `${outdatedCount} include(s) out of date, run "virtual-include expand" to update them`,
+            ]
+          : []),
+        ...(modifiedCount > 0
+          ? [`${modifiedCount} include(s) edited by hand`]
+          : []),
+        ...(invalidCount > 0
+          ? [`${invalidCount} invalid include(s) or marker(s)`]
+          : []),
+      ];
+      console.log(
+        failures.length > 0
+          ? failures.join("\n")
+          : "All includes are up to date",
+      );
+    } else {
+      console.log(`Updated ${updatedCount} file(s)`);
+    }
+
+    return failed ? 1 : 0;
+  }
+
+  /**
+   * Gets the engine for a file, with the configuration files of its folders applied. Engines are
+   * shared by the files of a directory, and invalid configuration files are reported once.
+   *
+   * @param config The config of the settings
+   * @param filePath
+   * @param engines The engines created so far, by directory
+   * @param invalidConfigFiles The invalid configuration files reported so far
+   * @returns IncludeEngine
+   */
+  private static _getEngine(
+    config: IncludeConfig,
+    filePath: string,
+    engines: Map<string, IncludeEngine>,
+    invalidConfigFiles: Set<string>,
+  ): IncludeEngine {
+    const directory = path.dirname(filePath);
+    let engine = engines.get(directory);
+    if (!engine) {
+      const configFiles = ConfigFiles.find(filePath);
+      for (const file of configFiles) {
+        if (file.error && !invalidConfigFiles.has(file.path)) {
+          invalidConfigFiles.add(file.path);
+          console.warn(
+            `${file.path}: warning: Invalid configuration file: ${file.error}`,
+          );
+        }
+      }
+      engine = new IncludeEngine(ConfigFiles.apply(config, configFiles));
+      engines.set(directory, engine);
+    }
+
+    return engine;
+  }
+
+  /**
+   * Parses the command-line arguments.
+   *
+   * @param args
+   * @returns CliOptions|null null if the arguments are invalid
+   */
+  private static _parseArgs(args: string[]): CliOptions | null {
+    let command: CliOptions["command"] | null = null;
+    let root = process.cwd();
+    const paths: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg === "--help" || arg === "-h") {
+        return { command: "help", root, paths };
+      } else if (arg === "--root") {
+        if (i + 1 >= args.length) {
+          return null;
+        }
+        root = path.resolve(args[++i]);
+      } else if (arg.startsWith("-")) {
+        return null;
+      } else if (!command) {
+        if (arg !== "check" && arg !== "expand") {
+          return null;
+        }
+        command = arg;
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    return command ? { command, root, paths } : null;
+  }
+
+  /**
+   * Finds the files to process: the given files, and all files in the given directories
+   * (or the root directory if no paths are given).
+   *
+   * @param root
+   * @param paths
+   * @returns string[] absolute paths, sorted
+   */
+  private static _findFiles(root: string, paths: string[]): string[] {
+    const files = new Set<string>();
+
+    for (const target of paths.length > 0 ? paths : [root]) {
+      const targetPath = path.resolve(target);
+
+      if (fs.statSync(targetPath).isFile()) {
+        files.add(targetPath);
+        continue;
+      }
+
+      for (const match of globSync("**/*", {
+        cwd: targetPath,
+        nodir: true,
+        ignore: this.IGNORED_DIRECTORIES,
+      })) {
+        files.add(path.join(targetPath, match));
+      }
+    }
+
+    return [...files].sort();
+  }
+
+  /**
+   * Reads .vscode/settings.json in the root directory, if present.
+   *
+   * @param root
+   * @returns Record<string, unknown>
+   */
+  private static _readSettings(root: string): Record<string, unknown> {
+    const settingsPath = path.join(root, ".vscode", "settings.json");
+    if (!fs.existsSync(settingsPath)) {
+      return {};
+    }
+
+    try {
+      return parseJsonWithComments(
+        fs.readFileSync(settingsPath, "utf8"),
+      ) as Record<string, unknown>;
+    } catch (error) {
+      console.warn(`Ignoring invalid settings file ${settingsPath}: ${error}`);
+      return {};
+    }
+  }
+
+  /**
+   * Reads the simple extension associations ("*.ext": "language") of the files.associations
+   * setting.
+   *
+   * @param settings
+   * @returns Record<string, string> language IDs by lowercase extension
+   */
+  private static _getAssociations(
+    settings: Record<string, unknown>,
+  ): Record<string, string> {
+    const associations: Record<string, string> = {};
+    const setting = settings["files.associations"];
+
+    if (typeof setting === "object" && setting !== null) {
+      for (const [pattern, languageId] of Object.entries(setting)) {
+        const match = pattern.match(/^\*(\.[^*/\\]+)$/);
+        if (match && typeof languageId === "string") {
+          associations[match[1].toLowerCase()] = languageId;
+        }
+      }
+    }
+
+    return associations;
+  }
+
+  /**
+   * Determines the language of a file from its extension, like VSCode would.
+   *
+   * @param filePath
+   * @param associations
+   * @returns string
+   */
+  private static _getLanguageId(
+    filePath: string,
+    associations: Record<string, string>,
+  ): string {
+    const extension = path.extname(filePath).toLowerCase();
+    return (
+      associations[extension] ||
+      LanguageRules.languageFromExtension(filePath) ||
+      this.EXTRA_LANGUAGES[extension] ||
+      "plaintext"
+    );
+  }
+}
+
+/**
+ * This interface defines the parsed command-line arguments.
+ */
+interface CliOptions {
+  command: "check" | "expand" | "help";
+  root: string;
+  paths: string[];
+}
+
+if (require.main === module) {
+  process.exit(Cli.run(process.argv.slice(2)));
+}
@@ -0,0 +1,358 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Constants } from "./constants";
+import { IncludeNavigation } from "./include-navigation";
+import { IncludeDirective, IncludeEngine, PathResolver } from "./core";
+
+/**
+ * The CodeActionProvider class offers quick fixes for the diagnostics of the DiagnosticsManager
+ * that can be fixed with a single action.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the user opens the quick fix menu on an include directive, the CodeActionProvider looks at
+ * the Virtual Include diagnostics on that line and, depending on their code, offers:
+ *
+ * - For a source that changed since its content was included: updating the include
+ * - For a block that was edited by hand: discarding the edits and restoring the content of the
+ *   source, or keeping the edits by writing the block back to the source file
+ * - For an included file that doesn't exist:
+ *   - Creating the file, empty or seeded from the newFileTemplate setting
+ *   - Replacing the path with the closest match among the files of the workspace, found by
+ *     PathResolver.findClosestPath; the workspace is only searched when the quick fixes are
+ *     requested explicitly, not for the light bulb shown whenever the cursor moves
+ *   - Converting a path that was written relative to the workspace folder (e.g. "/src/a.py" or
+ *     "src/a.py" in a nested document) into the path relative to the document
+ *   - Removing the directive together with its block
+ * - For markers that don't form a block below a directive: the fixes suggested by
+ *   IncludeEngine.checkMarkers, e.g. removing an orphaned marker or inserting a missing end marker
+ *
+ * Fixes that only change the path are applied as workspace edits; the other actions run commands,
+ * which are handled by the DocumentProcessor.
+ */
+export class VirtualIncludeCodeActionProvider
+  implements vscode.CodeActionProvider
+{
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+  ];
+
+  /**
+   * Provides quick fixes for the Virtual Include diagnostics in a range
+   *
+   * @param document The document the diagnostics belong to
+   * @param range The range the quick fixes are requested for
+   * @param context The diagnostics in the range
+   * @returns An array of code actions
+   */
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== "Virtual Include") {
+        continue;
+      }
+
+      const line = diagnostic.range.start.line;
+
+      if (diagnostic.code === Constants.DIAGNOSTIC_SOURCE_CHANGED) {
+        actions.push(
+          this._createAction(
+            "Update include from source",
+            diagnostic,
+            "virtualInclude.process",
+            [],
+            true,
+          ),
+        );
+      } else if (diagnostic.code === Constants.DIAGNOSTIC_MODIFIED_BLOCK) {
+        actions.push(
+          this._createAction(
+            "Discard edits and restore included content",
+            diagnostic,
+            "virtualInclude.restoreInclude",
+            [document.uri, line],
+            false,
+          ),
+          this._createAction(
+            "Keep edits by writing them to the source file",
+            diagnostic,
+            "virtualInclude.copyBlockToSource",
+            [document.uri, line],
+            false,
+          ),
+        );
+      } else if (diagnostic.code === Constants.DIAGNOSTIC_MARKER_PROBLEM) {
+        actions.push(...this._createMarkerActions(document, diagnostic));
+      } else if (diagnostic.code === Constants.DIAGNOSTIC_MISSING_FILE) {
+        actions.push(
+          ...(await this._createMissingFileActions(
+            document,
+            diagnostic,
+            context.triggerKind === vscode.CodeActionTriggerKind.Invoke,
+          )),
+        );
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Creates the quick fixes for an include of a file that doesn't exist:
+   *
+   * 1. Creating the file, and seeding it from the template if one is configured
+   * 2. Converting a path written relative to the workspace folder, if the file exists there, into a
+   *    path relative to the document or one starting from the workspace folder (/@/)
+   * 3. Replacing the path with the closest match in the workspace
+   * 4. Removing the directive and its block
+   *
+   * @param document
+   * @param diagnostic The missing file diagnostic
+   * @param searchWorkspace Whether to search the workspace for the closest match
+   * @returns Promise<vscode.CodeAction[]>
+   */
+  private async _createMissingFileActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    searchWorkspace: boolean,
+  ): Promise<vscode.CodeAction[]> {
+    const line = diagnostic.range.start.line;
+    const directive = IncludeNavigation.findDirectives(document).find(
+      (d) => d.line === line,
+    );
+    if (!directive || directive.isGlob) {
+      return [];
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(
+      directive.resolvedPath,
+    );
+    const actions = [
+      this._createAction(
+        `Create ${relativePath}`,
+        diagnostic,
+        "virtualInclude.createIncludedFile",
+        [document.uri, line, false],
+        false,
+      ),
+    ];
+    if (Constants.getNewFileTemplate()) {
+      actions.push(
+        this._createAction(
+          `Create ${relativePath} from template`,
+          diagnostic,
+          "virtualInclude.createIncludedFile",
+          [document.uri, line, true],
+          false,
+        ),
+      );
+    }
+
+    const rootPath = this._resolveFromWorkspaceFolder(document, directive);
+    if (rootPath) {
+      actions.push(
+        this._createPathAction(
+          "Convert to path relative to this document",
+          document,
+          diagnostic,
+          directive,
+          PathResolver.toIncludePath(
+            document.uri.fsPath,
+            rootPath,
+            this._stripRoot(directive.includePath),
+          ),
+          true,
+        ),
+        this._createPathAction(
+          "Convert to path relative to the workspace folder",
+          document,
+          diagnostic,
+          directive,
+          `/@/${this._stripRoot(directive.includePath)}`,
+          false,
+        ),
+      );
+    }
+
+    const closestPath = searchWorkspace
+      ? await this._findClosestPath(directive)
+      : null;
+    if (closestPath && closestPath !== rootPath) {
+      actions.push(
+        this._createPathAction(
+          `Change to ${vscode.workspace.asRelativePath(closestPath)}`,
+          document,
+          diagnostic,
+          directive,
+          PathResolver.toIncludePath(
+            document.uri.fsPath,
+            closestPath,
+            directive.includePath,
+            Constants.getIncludeConfig(document.uri.fsPath),
+          ),
+          !rootPath,
+        ),
+      );
+    }
+
+    actions.push(
+      this._createAction(
+        "Remove include directive and its block",
+        diagnostic,
+        "virtualInclude.removeInclude",
+        [document.uri, line],
+        false,
+      ),
+    );
+
+    return actions;
+  }
+
+  /**
+   * Finds the file of the workspace whose path is closest to the path of a directive.
+   *
+   * @param directive
+   * @returns Promise<string|null>
+   */
+  private async _findClosestPath(
+    directive: IncludeDirective,
+  ): Promise<string | null> {
+    const { exclude } = Constants.getWorkspaceGlobs();
+    const files = await vscode.workspace.findFiles("**/*", exclude, 5000);
+    return PathResolver.findClosestPath(
+      directive.resolvedPath,
+      files.map((uri) => uri.fsPath),
+    );
+  }
+
+  /**
+   * Creates the quick fixes for a marker problem, as suggested by IncludeEngine.checkMarkers. The
+   * first fix is preferred.
+   *
+   * @param document
+   * @param diagnostic The marker problem diagnostic
+   * @returns vscode.CodeAction[]
+   */
+  private _createMarkerActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction[] {
+    const problem = new IncludeEngine(
+      Constants.getIncludeConfig(document.uri.fsPath),
+    )
+      .checkMarkers(
+        document.getText(),
+        document.uri.fsPath,
+        document.languageId,
+      )
+      .find((p) => p.line === diagnostic.range.start.line);
+
+    return (problem?.fixes ?? []).map((fix, index) =>
+      this._createAction(
+        fix.title,
+        diagnostic,
+        "virtualInclude.repairMarkers",
+        [document.uri, fix.edits],
+        index === 0,
+      ),
+    );
+  }
+
+  /**
+   * Resolves the path of a directive against the workspace folder of the document instead of the
+   * document itself, as it is often written by mistake.
+   *
+   * @param document
+   * @param directive
+   * @returns string|null The resolved path, or null if no file exists there
+   */
+  private _resolveFromWorkspaceFolder(
+    document: vscode.TextDocument,
+    directive: IncludeDirective,
+  ): string | null {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!folder) {
+      return null;
+    }
+
+    const rootPath = PathResolver.resolveIncludePath(
+      path.join(folder.uri.fsPath, "document"),
+      this._stripRoot(directive.includePath),
+    );
+    return !PathResolver.isSamePath(rootPath, directive.resolvedPath) &&
+      fs.existsSync(rootPath)
+      ? rootPath
+      : null;
+  }
+
+  /**
+   * Removes the leading slashes of a path written relative to the workspace folder.
+   *
+   * @param includePath
+   * @returns string
+   */
+  private _stripRoot(includePath: string): string {
+    return includePath.replace(/^[/\\]+/, "");
+  }
+
+  /**
+   * Creates a quick fix that replaces the path of a directive.
+   *
+   * @param title
+   * @param document
+   * @param diagnostic The diagnostic the quick fix resolves
+   * @param directive
+   * @param includePath The new include path
+   * @param isPreferred Whether the quick fix is applied by "Auto Fix"
+   * @returns vscode.CodeAction
+   */
+  private _createPathAction(
+    title: string,
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    directive: IncludeDirective,
+    includePath: string,
+    isPreferred: boolean,
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = isPreferred;
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      IncludeNavigation.getPathRange(directive),
+      includePath,
+    );
+    return action;
+  }
+
+  /**
+   * Creates a quick fix that runs a command.
+   *
+   * @param title
+   * @param diagnostic The diagnostic the quick fix resolves
+   * @param command
+   * @param args The arguments of the command
+   * @param isPreferred Whether the quick fix is applied by "Auto Fix"
+   * @returns vscode.CodeAction
+   */
+  private _createAction(
+    title: string,
+    diagnostic: vscode.Diagnostic,
+    command: string,
+    args: unknown[],
+    isPreferred: boolean,
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = isPreferred;
+    action.command = { title, command, arguments: args };
+    return action;
+  }
+}
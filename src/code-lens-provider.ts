@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
-import * as path from "path";
-import { LanguageService } from "./language-service";
+import { IncludeNavigation } from "./include-navigation";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import { DirectiveSyntax, GlobInclude, LineRange } from "./core";
 
 /**
  * The CodeLensProvider class adds clickable code lenses above each virtual include directive,
@@ -10,9 +11,10 @@ import { LanguageService } from "./language-service";
  *
  * When a document is opened or changed, the CodeLensProvider:
  *
- * - Scans the document for virtual include directives using language-specific patterns
+ * - Finds the virtual include directives with the IncludeEngine (see IncludeNavigation)
  * - Creates a code lens positioned above each include directive
- * - Associates each code lens with a command to open the referenced file
+ * - Associates each code lens with a command to open the referenced file, scrolled to the
+ *   selected region, line range or symbol
  * - Resolves the file paths relative to the document containing the include
  *
  * This provides a convenient way for users to navigate between including documents and
@@ -51,98 +53,173 @@ export class VirtualIncludeCodeLensProvider implements vscode.CodeLensProvider {
       return [];
     }
 
-    const codeLenses: vscode.CodeLens[] = [];
-    const text = document.getText();
-    const lines = text.split("\n");
+    // Use the same directive matching as the engine, so lenses appear exactly on expanded includes
+    return IncludeNavigation.findDirectives(document).map(
+      (directive) =>
+        new vscode.CodeLens(
+          new vscode.Range(
+            directive.line,
+            0,
+            directive.line,
+            directive.text.length,
+          ),
+          {
+            title: "Open included file",
+            command: "virtualInclude.openIncludedFile",
+            arguments: [
+              document.uri,
+              directive.includePath,
+              directive.symbolPath,
+              directive.lineRange,
+            ],
+          },
+        ),
+    );
+  }
+}
 
-    // Get language settings for the document
-    const languageSettings = LanguageService.getLanguageSettings(
-      document.languageId,
+/**
+ * The SourceCodeLensProvider class adds a code lens at the top of every file that is included by
+ * other files, showing how many files include it. This tells the user who consumes a shared
+ * fragment before changing it, instead of only after saving.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * - The includers are taken from VirtualIncludeManager.getIncluders, which merges the workspace
+ *   include index with the documents processed in this session
+ * - Files without includers get no code lens
+ * - Clicking the code lens lists the includers with UIHandler.showAffectedFilesQuickPick
+ * - The code lenses are refreshed whenever the include index changes
+ */
+export class VirtualIncludeSourceCodeLensProvider
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private _onDidChangeCodeLenses: vscode.EventEmitter<void> =
+    new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses: vscode.Event<void> =
+    this._onDidChangeCodeLenses.event;
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor(private _manager: VirtualIncludeManager) {
+    this._disposables.push(
+      vscode.workspace.onDidChangeConfiguration(() =>
+        this._onDidChangeCodeLenses.fire(),
+      ),
+      this._manager.includeIndex.onDidChange(() =>
+        this._onDidChangeCodeLenses.fire(),
+      ),
     );
+  }
 
-    // Create regex for include directive using language settings
-    const includeRegex = new RegExp(languageSettings.includeDirectivePattern);
-
-    // Process each line to find include directives
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Get context-aware settings for this specific line
-      const contextAwareSettings = LanguageService.getContextAwareSettings({
-        document,
-        lineNumber: i,
-        line,
-      });
-
-      // Try to match against the context-aware pattern
-      const match = line.match(contextAwareSettings.includeDirectivePattern);
-
-      if (match) {
-        // Extract the file path from the include directive
-        const filePath = match[1];
-
-        // Create a range for the entire line
-        const range = new vscode.Range(
-          new vscode.Position(i, 0),
-          new vscode.Position(i, line.length),
-        );
-
-        // Create a code lens with a command to open the file
-        const codeLens = new vscode.CodeLens(range, {
-          title: "Open included file",
-          command: "virtualInclude.openIncludedFile",
-          arguments: [document.uri, filePath],
-        });
-
-        codeLenses.push(codeLens);
-      }
+  /**
+   * Provides the "Included by" code lens of a document
+   *
+   * @param document The document to provide code lenses for
+   * @returns An array with the code lens, or an empty array if nothing includes the document
+   */
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const config = vscode.workspace.getConfiguration("virtualInclude");
+    if (!config.get<boolean>("showCodeLens", true)) {
+      return [];
+    }
+
+    const count = this._manager.getIncluders(document.uri.fsPath).size;
+    if (count === 0) {
+      return [];
     }
 
-    return codeLenses;
+    return [
+      new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+        title: `Included by ${count} file${count !== 1 ? "s" : ""}`,
+        command: "virtualInclude.showIncluders",
+        arguments: [document.uri.fsPath],
+      }),
+    ];
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    for (const disposable of this._disposables) {
+      disposable.dispose();
+    }
+    this._disposables = [];
+    this._onDidChangeCodeLenses.dispose();
   }
 }
 
 /**
- * Opens a file referenced by a virtual include directive
+ * Opens a file referenced by a virtual include directive, revealing the selected part of it
  *
- * @param documentUri The URI of the document containing the include
+ * @param documentUri The URI of the document containing the include (a string when run from a
+ *                    document link)
  * @param includePath The path to the included file (may be relative)
+ * @param symbolPath The symbol selected by the directive (e.g. "User.save"), if any
+ * @param lineRange The lines selected by the directive, if any
  */
 export async function openIncludedFile(
-  documentUri: vscode.Uri,
+  documentUri: vscode.Uri | string,
   includePath: string,
+  symbolPath?: string | null,
+  lineRange?: LineRange | null,
 ): Promise<void> {
   try {
-    // Resolve the include path relative to the document
-    const resolvedPath = resolveIncludePath(documentUri, includePath);
+    const uri =
+      typeof documentUri === "string"
+        ? vscode.Uri.parse(documentUri)
+        : documentUri;
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString(),
+    );
 
-    // Create a URI for the resolved path
-    const fileUri = vscode.Uri.file(resolvedPath);
+    // The region is part of the include path, the other selectors are passed separately
+    const locations = await IncludeNavigation.resolveLocations(
+      uri,
+      {
+        includePath,
+        region: DirectiveSyntax.splitRegion(includePath).region,
+        symbolPath: symbolPath ?? null,
+        lineRange: lineRange ?? null,
+      },
+      document?.languageId,
+    );
+
+    if (locations.length === 0) {
+      vscode.window.showInformationMessage(
+        GlobInclude.isGlobPattern(includePath)
+          ? `No files match included pattern: ${includePath}`
+          : `Included file not found: ${includePath}`,
+      );
+      return;
+    }
+
+    // Let the user pick one of the files matching a glob include
+    const selected =
+      locations.length === 1
+        ? { location: locations[0] }
+        : await vscode.window.showQuickPick(
+            locations.map((location) => ({
+              label: vscode.workspace.asRelativePath(location.uri),
+              detail: location.uri.fsPath,
+              location,
+            })),
+            { placeHolder: "Select an included file to open" },
+          );
+    if (!selected) {
+      return;
+    }
 
-    // Open the document in an editor
-    const document = await vscode.workspace.openTextDocument(fileUri);
-    await vscode.window.showTextDocument(document);
+    // Open the document scrolled to the start of the selection, or at the top of the file
+    const { range } = selected.location;
+    const target = await vscode.workspace.openTextDocument(
+      selected.location.uri,
+    );
+    await vscode.window.showTextDocument(target, {
+      selection: new vscode.Range(range.start, range.start),
+    });
   } catch (error) {
     console.error(`Error opening included file: ${error}`);
     vscode.window.showErrorMessage(`Failed to open file: ${includePath}`);
   }
 }
-
-/**
- * Resolves a potentially relative include path to an absolute path
- *
- * @param documentUri The URI of the document containing the include
- * @param includePath The path to resolve (may be relative)
- * @returns The resolved absolute path
- */
-function resolveIncludePath(
-  documentUri: vscode.Uri,
-  includePath: string,
-): string {
-  if (path.isAbsolute(includePath)) {
-    return includePath;
-  }
-
-  const documentDir = path.dirname(documentUri.fsPath);
-  return path.resolve(documentDir, includePath);
-}
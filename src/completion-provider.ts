@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Constants } from "./constants";
+import { LanguageService } from "./language-service";
+import { PathResolver } from "./core";
+
+/**
+ * The CompletionProvider class suggests files and folders while an include path is typed, so
+ * paths don't have to be written (and mistyped) by hand.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When completions are requested, the CompletionProvider:
+ *
+ * - Gets the include directive pattern that applies on the line from
+ *   LanguageService.getContextAwareSettings, so custom patterns and section overrides work
+ * - Checks that the cursor is inside the quotes of a directive, by matching the line up to the
+ *   cursor as if the path ended there
+ * - Resolves the folder part of the typed path relative to the document
+ * - Suggests the entries of that folder: folders (which trigger the next suggestion when
+ *   accepted) and files, leaving out the document itself
+ * - When "completionKnownExtensionsOnly" is enabled, only suggests files with an extension in
+ *   LanguageService.EXTENSION_TO_LANGUAGE
+ *
+ * Suggestions replace the last segment of the typed path, so typing continues naturally after
+ * a folder separator.
+ */
+export class VirtualIncludeCompletionProvider
+  implements vscode.CompletionItemProvider
+{
+  public static readonly triggerCharacters = ["/", "'", '"'];
+
+  /**
+   * Provides the files and folders matching the typed include path
+   *
+   * @param document The document completions are requested in
+   * @param position The position of the cursor
+   * @returns An array of completion items, or undefined outside of include paths
+   */
+  public async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const typedPath = this._getTypedPath(document, position);
+    if (typedPath === null) {
+      return undefined;
+    }
+
+    const separatorIndex = Math.max(
+      typedPath.lastIndexOf("/"),
+      typedPath.lastIndexOf("\\"),
+    );
+    const folderPath = PathResolver.resolveIncludePath(
+      document.uri.fsPath,
+      typedPath.substring(0, separatorIndex + 1) || ".",
+      Constants.getIncludeConfig(document.uri.fsPath),
+    );
+    const replaceRange = new vscode.Range(
+      position.line,
+      position.character - (typedPath.length - separatorIndex - 1),
+      position.line,
+      position.character,
+    );
+
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(
+        vscode.Uri.file(folderPath),
+      );
+    } catch {
+      // The typed folder doesn't exist (yet)
+      return [];
+    }
+
+    const knownExtensionsOnly = Constants.isCompletionKnownExtensionsOnly();
+    const items: vscode.CompletionItem[] = [];
+
+    for (const [name, type] of entries) {
+      const isFolder = (type & vscode.FileType.Directory) !== 0;
+
+      if (!isFolder) {
+        if (
+          PathResolver.isSamePath(
+            path.join(folderPath, name),
+            document.uri.fsPath,
+          )
+        ) {
+          continue;
+        }
+        if (
+          knownExtensionsOnly &&
+          !(
+            path.extname(name).toLowerCase() in
+            LanguageService.EXTENSION_TO_LANGUAGE
+          )
+        ) {
+          continue;
+        }
+      }
+
+      const item = new vscode.CompletionItem(
+        name,
+        isFolder
+          ? vscode.CompletionItemKind.Folder
+          : vscode.CompletionItemKind.File,
+      );
+      item.range = replaceRange;
+      // List folders before files
+      item.sortText = `${isFolder ? "0" : "1"}${name}`;
+
+      if (isFolder) {
+        item.insertText = `${name}/`;
+        item.command = {
+          title: "Suggest folder contents",
+          command: "editor.action.triggerSuggest",
+        };
+      }
+
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Gets the include path typed before the cursor, if the cursor is inside the quotes of an
+   * include directive. The line up to the cursor is matched with the directive pattern as if
+   * the path ended there, so it works while the closing quote hasn't been typed yet.
+   *
+   * @param document
+   * @param position
+   * @returns string|null
+   */
+  private _getTypedPath(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): string | null {
+    const line = document.lineAt(position.line).text;
+    const beforeCursor = line.substring(0, position.character);
+    const quoteIndex = Math.max(
+      beforeCursor.lastIndexOf("'"),
+      beforeCursor.lastIndexOf('"'),
+    );
+    if (quoteIndex === -1) {
+      return null;
+    }
+
+    const typedPath = beforeCursor.substring(quoteIndex + 1);
+    const quote = beforeCursor[quoteIndex];
+
+    const settings = LanguageService.getContextAwareSettings({
+      document,
+      lineNumber: position.line,
+      line,
+    });
+
+    // A placeholder stands in for the rest of the path, which the pattern requires to be non-empty
+    const match = new RegExp(settings.includeDirectivePattern).exec(
+      `${beforeCursor}_${quote}`,
+    );
+
+    return match?.[1] === `${typedPath}_` ? typedPath : null;
+  }
+}
@@ -1,3 +1,14 @@
+import * as vscode from "vscode";
+import {
+  ConfigFiles,
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeConfig,
+  RegionMarkers,
+  SectionOverride,
+} from "./core";
+import { FolderConfigurations } from "./folder-configuration";
+import { LanguageConfigurations } from "./language-configuration";
+
 /**
  * The constants module serves as a central repository for all constant values and configuration settings
  * used throughout the extension. It centralizes all static values and configuration options in one place.
@@ -21,15 +32,22 @@
  * within the extension.
  */
 export class Constants {
-  // Regular expression to match virtual include comments
+  // Regular expression to match virtual include comments (optionally followed by selectors)
   public static readonly VIRTUAL_INCLUDE_REGEX =
-    /^\s*# virtualInclude\s+["'](.+?)["']\s*$/;
+    /^\s*# virtualInclude\s+["'](.+?)["'](?:\s+\w+=\S+)*\s*$/;
 
-  // Markers used to indicate the beginning and end of included content
+  // Markers used to indicate the beginning and end of included content, filled in with the
+  // comment style of each language
   public static readonly PROTECTED_SECTION_START =
-    "# virtualIncludeStart - DO NOT EDIT CONTENT BELOW";
+    DEFAULT_INCLUDE_CONFIG.startMarker;
   public static readonly PROTECTED_SECTION_END =
-    "# virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE";
+    DEFAULT_INCLUDE_CONFIG.endMarker;
+
+  // Codes of the diagnostics that come with quick fixes
+  public static readonly DIAGNOSTIC_SOURCE_CHANGED = "sourceChanged";
+  public static readonly DIAGNOSTIC_MODIFIED_BLOCK = "modifiedBlock";
+  public static readonly DIAGNOSTIC_MISSING_FILE = "missingFile";
+  public static readonly DIAGNOSTIC_MARKER_PROBLEM = "markerProblem";
 
   // Configuration keys
   public static readonly CONFIG_SECTION = "virtualInclude";
@@ -38,9 +56,35 @@ export class Constants {
   public static readonly CONFIG_END_MARKER = "endMarker";
   public static readonly CONFIG_LANGUAGE_OVERRIDES = "languageOverrides";
   public static readonly CONFIG_DETECT_FROM_EXTENSION = "detectFromExtension";
+  public static readonly CONFIG_REGION_START_MARKER = "regionStartMarker";
+  public static readonly CONFIG_REGION_END_MARKER = "regionEndMarker";
+  public static readonly CONFIG_EXPAND_NESTED_INCLUDES = "expandNestedIncludes";
+  public static readonly CONFIG_MAX_INCLUDE_DEPTH = "maxIncludeDepth";
+  public static readonly CONFIG_GLOB_FILE_HEADERS = "globFileHeaders";
+  public static readonly CONFIG_CONTENT_HASHES = "contentHashes";
+  public static readonly CONFIG_CONFIRM_UPDATES = "confirmUpdates";
+  public static readonly CONFIG_COMPLETION_KNOWN_EXTENSIONS_ONLY =
+    "completionKnownExtensionsOnly";
+  public static readonly CONFIG_UPDATE_INCLUDES_ON_RENAME =
+    "updateIncludesOnRename";
+  public static readonly CONFIG_NEW_FILE_TEMPLATE = "newFileTemplate";
+  public static readonly CONFIG_PATH_ALIASES = "pathAliases";
+  public static readonly CONFIG_SEARCH_PATHS = "searchPaths";
+  public static readonly CONFIG_WORKSPACE_INCLUDE = "workspaceInclude";
+  public static readonly CONFIG_WORKSPACE_EXCLUDE = "workspaceExclude";
+
+  // Default keywords that delimit named regions in source files
+  public static readonly DEFAULT_REGION_START_MARKER = "region";
+  public static readonly DEFAULT_REGION_END_MARKER = "endregion";
+
+  // Default globs of the files that are searched when processing the whole workspace
+  public static readonly DEFAULT_WORKSPACE_INCLUDE = "**/*";
+  public static readonly DEFAULT_WORKSPACE_EXCLUDE =
+    "**/{node_modules,.git,dist,out}/**";
 
   /**
-   * Retrieves the configured start marker or uses default
+   * Retrieves the configured start marker or uses default. {{comment}} and {{commentEnd}} stand
+   * for the comment delimiters of each language.
    *
    * @returns string
    */
@@ -53,7 +97,8 @@ export class Constants {
   }
 
   /**
-   * Retrieves the configured end marker or uses default.
+   * Retrieves the configured end marker or uses default, with the same placeholders as the start
+   * marker.
    *
    * @returns string
    */
@@ -65,6 +110,156 @@ export class Constants {
     );
   }
 
+  /**
+   * Retrieves the configured keywords that delimit named regions in source files.
+   *
+   * @returns RegionMarkers
+   */
+  public static getRegionMarkers(): RegionMarkers {
+    const config = Constants.getConfiguration();
+    return {
+      start: config.get<string>(
+        Constants.CONFIG_REGION_START_MARKER,
+        Constants.DEFAULT_REGION_START_MARKER,
+      ),
+      end: config.get<string>(
+        Constants.CONFIG_REGION_END_MARKER,
+        Constants.DEFAULT_REGION_END_MARKER,
+      ),
+    };
+  }
+
+  /**
+   * Checks if nested include directives should be expanded instead of neutralized.
+   *
+   * @returns bool
+   */
+  public static isNestedExpansionEnabled(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(Constants.CONFIG_EXPAND_NESTED_INCLUDES, false);
+  }
+
+  /**
+   * Retrieves the maximum number of nested include levels that are expanded.
+   *
+   * @returns number
+   */
+  public static getMaxIncludeDepth(): number {
+    const config = Constants.getConfiguration();
+    return config.get<number>(Constants.CONFIG_MAX_INCLUDE_DEPTH, 5);
+  }
+
+  /**
+   * Checks if a header comment should precede each file of a glob include.
+   *
+   * @returns bool
+   */
+  public static isGlobFileHeadersEnabled(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(Constants.CONFIG_GLOB_FILE_HEADERS, false);
+  }
+
+  /**
+   * Checks if start markers should carry hashes of the included content.
+   *
+   * @returns bool
+   */
+  public static isContentHashesEnabled(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(Constants.CONFIG_CONTENT_HASHES, false);
+  }
+
+  /**
+   * Retrieves the globs of the files that are searched when processing the whole workspace.
+   *
+   * @returns {include: string, exclude: string}
+   */
+  public static getWorkspaceGlobs(): { include: string; exclude: string } {
+    const config = Constants.getConfiguration();
+    return {
+      include: config.get<string>(
+        Constants.CONFIG_WORKSPACE_INCLUDE,
+        Constants.DEFAULT_WORKSPACE_INCLUDE,
+      ),
+      exclude: config.get<string>(
+        Constants.CONFIG_WORKSPACE_EXCLUDE,
+        Constants.DEFAULT_WORKSPACE_EXCLUDE,
+      ),
+    };
+  }
+
+  /**
+   * Checks if include updates have to be confirmed in the refactor preview.
+   *
+   * @returns bool
+   */
+  public static isConfirmUpdatesEnabled(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(Constants.CONFIG_CONFIRM_UPDATES, false);
+  }
+
+  /**
+   * Checks if path completion should only suggest files of known languages.
+   *
+   * @returns bool
+   */
+  public static isCompletionKnownExtensionsOnly(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(
+      Constants.CONFIG_COMPLETION_KNOWN_EXTENSIONS_ONLY,
+      false,
+    );
+  }
+
+  /**
+   * Checks if include paths should be rewritten when their files are renamed or moved.
+   *
+   * @returns bool
+   */
+  public static isUpdateIncludesOnRenameEnabled(): boolean {
+    const config = Constants.getConfiguration();
+    return config.get<boolean>(
+      Constants.CONFIG_UPDATE_INCLUDES_ON_RENAME,
+      true,
+    );
+  }
+
+  /**
+   * Gets the template that the "Create missing file" quick fix seeds new files with, relative to
+   * the workspace folder of the including document.
+   *
+   * @returns string Empty when no template is configured
+   */
+  public static getNewFileTemplate(): string {
+    const config = Constants.getConfiguration();
+    return config.get<string>(Constants.CONFIG_NEW_FILE_TEMPLATE, "");
+  }
+
+  /**
+   * Gets the path aliases, e.g. "@shared" -> "libs/shared", with targets relative to the workspace
+   * folder of the including document.
+   *
+   * @returns Record<string, string>
+   */
+  public static getPathAliases(): Record<string, string> {
+    const config = Constants.getConfiguration();
+    return config.get<Record<string, string>>(
+      Constants.CONFIG_PATH_ALIASES,
+      {},
+    );
+  }
+
+  /**
+   * Gets the directories in which bare include paths that don't exist next to the document are
+   * looked up, in order, relative to the workspace folder of the including document.
+   *
+   * @returns string[]
+   */
+  public static getSearchPaths(): string[] {
+    const config = Constants.getConfiguration();
+    return config.get<string[]>(Constants.CONFIG_SEARCH_PATHS, []);
+  }
+
   /**
    * Checks if automatic processing is enabled.
    *
@@ -75,6 +270,63 @@ export class Constants {
     return config.get<boolean>(Constants.CONFIG_AUTO_PROCESS, true);
   }
 
+  /**
+   * Collects all settings that influence how includes are found and expanded into the plain
+   * config object used by the headless include engine. With the path of a document, the
+   * .virtualinclude.json files of its folders are applied on top (see FolderConfigurations).
+   *
+   * @param documentPath The path of the document the config is used for
+   * @returns IncludeConfig
+   */
+  public static getIncludeConfig(documentPath?: string): IncludeConfig {
+    const config = Constants.getConfiguration();
+    const regionMarkers = Constants.getRegionMarkers();
+    const includeConfig: IncludeConfig = {
+      languageSettings: config.get<IncludeConfig["languageSettings"]>(
+        "languageSettings",
+        {},
+      ),
+      defaultCommentStyle: config.get<string>("defaultCommentStyle", "#"),
+      detectFromExtension: config.get<boolean>(
+        Constants.CONFIG_DETECT_FROM_EXTENSION,
+        true,
+      ),
+      languageOverrides: config.get<SectionOverride[]>(
+        Constants.CONFIG_LANGUAGE_OVERRIDES,
+        [],
+      ),
+      regionStartMarker: regionMarkers.start,
+      regionEndMarker: regionMarkers.end,
+      expandNestedIncludes: Constants.isNestedExpansionEnabled(),
+      maxIncludeDepth: Constants.getMaxIncludeDepth(),
+      globFileHeaders: Constants.isGlobFileHeadersEnabled(),
+      contentHashes: Constants.isContentHashesEnabled(),
+      startMarker: Constants.getStartMarker(),
+      endMarker: Constants.getEndMarker(),
+      commentStyles: LanguageConfigurations.getCommentStyles(),
+      fileLanguages: LanguageConfigurations.getFileLanguages(),
+      searchPaths: Constants.getSearchPaths(),
+      workspaceFolder: documentPath
+        ? (vscode.workspace.getWorkspaceFolder(vscode.Uri.file(documentPath))
+            ?.uri.fsPath ?? "")
+        : "",
+      workspaceFolders: Object.fromEntries(
+        (vscode.workspace.workspaceFolders ?? []).map((folder) => [
+          folder.name,
+          folder.uri.fsPath,
+        ]),
+      ),
+      pathAliases: Constants.getPathAliases(),
+    };
+
+    return documentPath
+      ? ConfigFiles.apply(
+          includeConfig,
+          FolderConfigurations.getConfigFiles(documentPath),
+        )
+      : includeConfig;
+  }
+
   /**
    * Helper to access the VSCode configuration.
    *
@@ -84,5 +336,3 @@ export class Constants {
     return vscode.workspace.getConfiguration(Constants.CONFIG_SECTION);
   }
 }
-
-import * as vscode from "vscode";
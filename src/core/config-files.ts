@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import * as path from "path";
+import { IncludeConfig, parseJsonWithComments } from "./config";
+
+/**
+ * The ConfigFiles class reads .virtualinclude.json (or .virtualincluderc) files, so that folders
+ * of a repository, like the packages of a monorepo, can use their own include conventions.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * For a document, the configuration files are looked up hierarchically:
+ *
+ * - Starting in the document's directory, every directory up to the file system root is checked
+ *   for a configuration file (.virtualinclude.json wins when a directory has both)
+ * - The lookup stops early at a file containing "root": true, like .editorconfig
+ * - The files are applied from the outermost to the nearest one, so nearer files win
+ *
+ * A configuration file holds the same keys as the "virtualInclude.*" settings, without the
+ * prefix, e.g. { "startMarker": "...", "languageSettings": { ... }, "searchPaths": ["../shared"] }.
+ * Values replace the values of the settings, except that:
+ *
+ * - languageSettings are merged per language, so a file can change only the pattern of one
+ *   language and keep its markers
+ * - commentStyles and fileLanguages are merged per key
+ * - languageOverrides are added to the configured ones
+ * - searchPaths are resolved relative to the configuration file and searched before the
+ *   search paths of outer files and the settings
+ * - pathAliases are merged per alias, and relative targets are resolved relative to the
+ *   configuration file
+ * - the workspace folders are not set by configuration files
+ *
+ * Values of the wrong type are ignored, and files that can't be read or parsed are returned with
+ * an error so the caller can report them; they don't change the config.
+ */
+export class ConfigFiles {
+  // Names of configuration files in the order they are preferred within a directory
+  public static readonly FILE_NAMES = [
+    ".virtualinclude.json",
+    ".virtualincluderc",
+  ];
+
+  /**
+   * Finds the configuration files that apply to a document.
+   *
+   * @param documentPath
+   * @param readFile Reads a file, returning null if it doesn't exist
+   * @returns ConfigFile[] From the outermost to the nearest file
+   */
+  public static find(
+    documentPath: string,
+    readFile: (filePath: string) => string | null = ConfigFiles._readFile,
+  ): ConfigFile[] {
+    const files: ConfigFile[] = [];
+    let directory = path.dirname(path.resolve(documentPath));
+
+    while (true) {
+      const file = this._readConfigFile(directory, readFile);
+      if (file) {
+        files.unshift(file);
+        if (file.values.root === true) {
+          break;
+        }
+      }
+
+      const parent = path.dirname(directory);
+      if (parent === directory) {
+        break;
+      }
+      directory = parent;
+    }
+
+    return files;
+  }
+
+  /**
+   * Applies configuration files to a config.
+   *
+   * @param config The config of the settings
+   * @param files The files from the outermost to the nearest file (see find)
+   * @returns IncludeConfig A new config, the given config is not changed
+   */
+  public static apply(
+    config: IncludeConfig,
+    files: ConfigFile[],
+  ): IncludeConfig {
+    return files.reduce(
+      (merged, file) => (file.error ? merged : this._merge(merged, file)),
+      config,
+    );
+  }
+
+  /**
+   * Merges the values of a single configuration file into a config.
+   *
+   * @param config
+   * @param file
+   * @returns IncludeConfig
+   */
+  private static _merge(
+    config: IncludeConfig,
+    file: ConfigFile,
+  ): IncludeConfig {
+    const merged: IncludeConfig = { ...config };
+    const target = merged as unknown as Record<string, unknown>;
+
+    for (const key of Object.keys(config) as (keyof IncludeConfig)[]) {
+      const value = file.values[key];
+      if (
+        value === undefined ||
+        value === null ||
+        typeof value !== typeof config[key] ||
+        Array.isArray(value) !== Array.isArray(config[key])
+      ) {
+        continue;
+      }
+
+      switch (key) {
+        case "languageSettings": {
+          const languageSettings = { ...config.languageSettings };
+          for (const [languageId, settings] of Object.entries(
+            value as IncludeConfig["languageSettings"],
+          )) {
+            languageSettings[languageId] = {
+              ...languageSettings[languageId],
+              ...settings,
+            };
+          }
+          merged.languageSettings = languageSettings;
+          break;
+        }
+        case "commentStyles":
+        case "fileLanguages":
+          target[key] = { ...config[key], ...(value as object) };
+          break;
+        case "languageOverrides":
+          merged.languageOverrides = [
+            ...config.languageOverrides,
+            ...(value as IncludeConfig["languageOverrides"]),
+          ];
+          break;
+        case "pathAliases": {
+          const pathAliases = { ...config.pathAliases };
+          for (const [alias, target] of Object.entries(value as object)) {
+            if (typeof target === "string") {
+              pathAliases[alias] = this._resolvePath(file, target);
+            }
+          }
+          merged.pathAliases = pathAliases;
+          break;
+        }
+        case "workspaceFolder":
+        case "workspaceFolders":
+          break;
+        case "searchPaths":
+          merged.searchPaths = [
+            ...(value as unknown[])
+              .filter((searchPath) => typeof searchPath === "string")
+              .map((searchPath) =>
+                this._resolvePath(file, searchPath as string),
+              ),
+            ...config.searchPaths,
+          ];
+          break;
+        default:
+          target[key] = value;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Resolves a path written in a configuration file relative to the file. Paths starting from a
+   * workspace folder (/@/ or ${workspaceFolder}) are kept, they are resolved with the include path.
+   *
+   * @param file
+   * @param filePath
+   * @returns string
+   */
+  private static _resolvePath(file: ConfigFile, filePath: string): string {
+    return filePath.startsWith("/@/") || filePath.startsWith("${")
+      ? filePath
+      : path.resolve(path.dirname(file.path), filePath);
+  }
+
+  /**
+   * Reads the configuration file of a directory, if it has one.
+   *
+   * @param directory
+   * @param readFile
+   * @returns ConfigFile|null
+   */
+  private static _readConfigFile(
+    directory: string,
+    readFile: (filePath: string) => string | null,
+  ): ConfigFile | null {
+    for (const fileName of this.FILE_NAMES) {
+      const filePath = path.join(directory, fileName);
+      const text = readFile(filePath);
+      if (text === null) {
+        continue;
+      }
+
+      try {
+        const values = parseJsonWithComments(text);
+        if (
+          typeof values !== "object" ||
+          values === null ||
+          Array.isArray(values)
+        ) {
+          return { path: filePath, values: {}, error: "Expected an object" };
+        }
+        return {
+          path: filePath,
+          values: values as Record<string, unknown>,
+          error: null,
+        };
+      } catch (error) {
+        return {
+          path: filePath,
+          values: {},
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reads a file from the file system.
+   *
+   * @param filePath
+   * @returns string|null null if the file doesn't exist or is a directory
+   */
+  private static _readFile(filePath: string): string | null {
+    try {
+      return fs.statSync(filePath).isFile()
+        ? fs.readFileSync(filePath, "utf8")
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * This interface defines a configuration file and its parsed values. The values are empty when
+ * the file couldn't be parsed, and the error says why.
+ */
+export interface ConfigFile {
+  path: string;
+  values: Record<string, unknown>;
+  error: string | null;
+}
@@ -0,0 +1,150 @@
+/**
+ * The config module defines the plain settings object used by the headless include engine.
+ * It mirrors the "virtualInclude.*" settings of the extension, but carries no dependency on
+ * VSCode, so the same rules can be applied in build scripts, unit tests and other editors.
+ *
+ * The extension fills it from the VSCode configuration (Constants.getIncludeConfig), while
+ * headless callers start from DEFAULT_INCLUDE_CONFIG and override what they need.
+ */
+
+/**
+ * This interface defines the structure for comment styles with start and end markers
+ */
+export interface CommentStyle {
+  start: string;
+  end: string;
+}
+
+/**
+ * This interface defines the structure of language-specific settings, including the pattern
+ * for detecting include directives and templates for start/end markers.
+ */
+export interface LanguageSettings {
+  includeDirectivePattern: string;
+  startMarkerTemplate: string;
+  endMarkerTemplate: string;
+}
+
+/**
+ * This interface defines a section of a file that uses a different comment style,
+ * e.g. JavaScript inside HTML script tags.
+ */
+export interface SectionOverride {
+  fileType: string;
+  pattern: string;
+  commentStyle: string;
+  commentEnd?: string;
+  continueUntil: string;
+}
+
+/**
+ * This interface defines all settings that influence how includes are found and expanded.
+ */
+export interface IncludeConfig {
+  languageSettings: Record<string, Partial<LanguageSettings>>;
+  defaultCommentStyle: string;
+  detectFromExtension: boolean;
+  languageOverrides: SectionOverride[];
+  regionStartMarker: string;
+  regionEndMarker: string;
+  expandNestedIncludes: boolean;
+  maxIncludeDepth: number;
+  globFileHeaders: boolean;
+  contentHashes: boolean;
+  // Marker texts of all languages, with {{comment}} and {{commentEnd}} placeholders
+  startMarker: string;
+  endMarker: string;
+  // Comment styles of languages, and languages of file extensions (".toml") and file names
+  // ("dockerfile"), beyond the built-in tables; the extension reads them from installed extensions
+  commentStyles: Record<string, CommentStyle>;
+  fileLanguages: Record<string, string>;
+  // Directories in which include paths that are not found next to the document are looked up
+  searchPaths: string[];
+  // Roots of include paths: the workspace folder of the document (/@/ and ${workspaceFolder}),
+  // all workspace folders by name (${workspaceFolder:name}) and path aliases ("@shared")
+  workspaceFolder: string;
+  workspaceFolders: Record<string, string>;
+  pathAliases: Record<string, string>;
+}
+
+/**
+ * The defaults of all settings, matching the defaults declared in package.json.
+ */
+export const DEFAULT_INCLUDE_CONFIG: IncludeConfig = {
+  languageSettings: {},
+  defaultCommentStyle: "#",
+  detectFromExtension: true,
+  languageOverrides: [],
+  regionStartMarker: "region",
+  regionEndMarker: "endregion",
+  expandNestedIncludes: false,
+  maxIncludeDepth: 5,
+  globFileHeaders: false,
+  contentHashes: false,
+  startMarker:
+    "{{comment}} virtualIncludeStart - DO NOT EDIT CONTENT BELOW {{commentEnd}}",
+  endMarker:
+    "{{comment}} virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE {{commentEnd}}",
+  commentStyles: {},
+  fileLanguages: {},
+  searchPaths: [],
+  workspaceFolder: "",
+  workspaceFolders: {},
+  pathAliases: {},
+};
+
+/**
+ * Creates a config from the contents of a VSCode settings file (e.g. .vscode/settings.json).
+ * Both the flat form ("virtualInclude.maxIncludeDepth": 3) and the nested form
+ * ("virtualInclude": { "maxIncludeDepth": 3 }) are read; missing settings keep their defaults.
+ *
+ * @param settings The parsed settings object
+ * @returns IncludeConfig
+ */
+export function configFromSettings(
+  settings: Record<string, unknown>,
+): IncludeConfig {
+  const nested = settings["virtualInclude"];
+  const values: Record<string, unknown> = {
+    ...(typeof nested === "object" && nested !== null ? nested : {}),
+  };
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (key.startsWith("virtualInclude.")) {
+      values[key.substring("virtualInclude.".length)] = value;
+    }
+  }
+
+  const config: IncludeConfig = { ...DEFAULT_INCLUDE_CONFIG };
+  for (const key of Object.keys(config) as (keyof IncludeConfig)[]) {
+    if (
+      values[key] !== undefined &&
+      typeof values[key] === typeof DEFAULT_INCLUDE_CONFIG[key]
+    ) {
+      (config as unknown as Record<string, unknown>)[key] = values[key];
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Parses JSON that may contain comments and trailing commas, like VSCode settings files and
+ * language configurations.
+ *
+ * @param text
+ * @returns unknown
+ * @throws SyntaxError if the text is not valid JSON after removing comments and trailing commas
+ */
+export function parseJsonWithComments(text: string): unknown {
+  return JSON.parse(
+    text
+      .replace(
+        /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+        (match, string) => string ?? "",
+      )
+      .replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (match, string, closing) =>
+        string ? string : closing,
+      ),
+  );
+}
@@ -0,0 +1,223 @@
+import { CommentStyle } from "./config";
+
+/**
+ * The ContentExtractor class narrows the content of an included file down to the part that
+ * a directive actually asks for. Directives can carry selectors after the quoted path, and
+ * each selector maps to one extraction method here.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * After the IncludeEngine has read a source file, it parses any selectors from the directive
+ * line (see DirectiveSyntax) and hands the raw content to the matching method:
+ *
+ * - extractLines(content, range) returns only the requested (1-based, inclusive) lines
+ * - extractRegion(content, name, ...) returns the lines between "region <name>" and the
+ *   matching "endregion" comment, with their common indentation removed
+ * - extractBlock(content, range) returns a dedented line range, used for symbols located by
+ *   the SymbolResolver
+ *
+ * Every method returns null when the selection cannot be satisfied by the source file, so
+ * that the IncludeEngine can report the problem and callers can decide whether to skip the
+ * include or report a diagnostic.
+ */
+export class ContentExtractor {
+  /**
+   * Counts the lines of a file, ignoring the empty string produced by a trailing newline.
+   *
+   * @param content
+   * @returns number
+   */
+  public static countLines(content: string): number {
+    const lines = content.split("\n");
+    if (lines.length > 1 && lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+    return lines.length;
+  }
+
+  /**
+   * Extracts a line range from the content. Open-ended ranges (lines=10-) run until the end
+   * of the file and keep its trailing newline, like a whole-file include does.
+   *
+   * @param content
+   * @param range
+   * @returns string|null null when the range lies outside the content
+   */
+  public static extractLines(content: string, range: LineRange): string | null {
+    if (!this.isLineRangeValid(content, range)) {
+      return null;
+    }
+
+    const lines = content.split("\n");
+    return lines
+      .slice(range.start - 1, range.end === null ? undefined : range.end)
+      .join("\n");
+  }
+
+  /**
+   * Checks whether a line range can be satisfied by the content.
+   *
+   * @param content
+   * @param range
+   * @returns boolean
+   */
+  public static isLineRangeValid(content: string, range: LineRange): boolean {
+    const lineCount = this.countLines(content);
+
+    if (range.start < 1 || range.start > lineCount) {
+      return false;
+    }
+
+    if (
+      range.end !== null &&
+      (range.end < range.start || range.end > lineCount)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Extracts a line range and removes its common indentation, so that a nested symbol
+   * (e.g. a method inside a class) can be indented to match the include directive.
+   *
+   * @param content
+   * @param range
+   * @returns string|null null when the range lies outside the content
+   */
+  public static extractBlock(content: string, range: LineRange): string | null {
+    const selected = this.extractLines(content, range);
+    if (selected === null) {
+      return null;
+    }
+
+    return this.dedent(selected.split("\n"));
+  }
+
+  /**
+   * Extracts a named region from the content. Regions may be nested, so the matching end
+   * marker is the one that closes the depth at which the named region was opened.
+   *
+   * @param content
+   * @param name
+   * @param commentStyle The comment style of the source file
+   * @param markers
+   * @returns string|null null when the region does not exist or is never closed
+   */
+  public static extractRegion(
+    content: string,
+    name: string,
+    commentStyle: CommentStyle,
+    markers: RegionMarkers,
+  ): string | null {
+    const range = this.findRegion(content, name, commentStyle, markers);
+    if (range === null) {
+      return null;
+    }
+
+    const lines = content.split("\n");
+    return this.dedent(lines.slice(range.start - 1, range.end ?? lines.length));
+  }
+
+  /**
+   * Finds the lines between the markers of a named region.
+   *
+   * @param content
+   * @param name
+   * @param commentStyle The comment style of the source file
+   * @param markers
+   * @returns LineRange|null null when the region does not exist or is never closed; an empty
+   *          region ends before it starts
+   */
+  public static findRegion(
+    content: string,
+    name: string,
+    commentStyle: CommentStyle,
+    markers: RegionMarkers,
+  ): LineRange | null {
+    const comment = this.escapeRegExp(commentStyle.start);
+    const commentEnd = commentStyle.end
+      ? `(?:\\s*${this.escapeRegExp(commentStyle.end)})?`
+      : "";
+    const startRegex = new RegExp(
+      `^\\s*${comment}\\s*#?${this.escapeRegExp(markers.start)}\\b\\s*(.*?)${commentEnd}\\s*$`,
+    );
+    const endRegex = new RegExp(
+      `^\\s*${comment}\\s*#?${this.escapeRegExp(markers.end)}\\b`,
+    );
+
+    const lines = content.split("\n");
+    let regionStart = -1;
+    let depth = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      // Test the end marker first so closing lines are never counted as nested regions
+      if (endRegex.test(lines[i])) {
+        if (regionStart !== -1) {
+          depth--;
+          if (depth === 0) {
+            // Lines are 1-based, so these are the lines after the start and before the end marker
+            return { start: regionStart + 2, end: i };
+          }
+        }
+        continue;
+      }
+
+      const startMatch = lines[i].match(startRegex);
+      if (startMatch) {
+        if (regionStart !== -1) {
+          depth++;
+        } else if (startMatch[1].trim() === name) {
+          regionStart = i;
+          depth = 1;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Removes the indentation shared by all non-empty lines.
+   *
+   * @param lines
+   * @returns string
+   */
+  private static dedent(lines: string[]): string {
+    const indents = lines
+      .filter((line) => line.trim().length > 0)
+      .map((line) => line.match(/^(\s*)/)?.[1].length || 0);
+    const shared = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return lines.map((line) => line.substring(shared)).join("\n");
+  }
+
+  /**
+   * Escapes special characters for use in regex patterns.
+   *
+   * @param string
+   * @returns string
+   */
+  private static escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+/**
+ * This interface defines the keywords that open and close a named region in a source file,
+ * e.g. "# region retry-logic" ... "# endregion".
+ */
+export interface RegionMarkers {
+  start: string;
+  end: string;
+}
+
+/**
+ * This interface defines a 1-based, inclusive line range. An end of null means
+ * "until the end of the file".
+ */
+export interface LineRange {
+  start: number;
+  end: number | null;
+}
@@ -0,0 +1,197 @@
+import { createHash } from "crypto";
+import { LineRange } from "./content-extractor";
+
+/**
+ * The DirectiveSyntax class parses the parts of an include directive that do not depend on the
+ * language: the 'with' comment style override and the selectors that narrow down the included
+ * content. The directive itself is matched by the language-specific includeDirectivePattern,
+ * see LanguageRules.
+ *
+ * A directive can look like this:
+ *
+ *   // virtualInclude 'models/user.js#save-logic' lines=2-10 symbol=User.save with '//'
+ *
+ * - '#save-logic' selects a named region of the source file
+ * - lines=2-10 selects a (1-based, inclusive) line range, lines=2- runs until the end
+ * - symbol=User.save selects a symbol reported by the language's document symbol provider
+ * - with '//' overrides the comment style used for the markers
+ *
+ * When content hashes are enabled, start markers carry the hashes of the inserted block and of
+ * the source content it was expanded from:
+ *
+ *   // virtualIncludeStart - DO NOT EDIT CONTENT BELOW [content:1a2b3c4d source:5e6f7a8b]
+ */
+export class DirectiveSyntax {
+  /**
+   * Regex to extract comment style override from include directive
+   * Matches patterns like: virtualInclude 'file.js' with '//'
+   * and virtualInclude 'file.js' lines=1-5 with '//'
+   */
+  public static readonly COMMENT_OVERRIDE_REGEX =
+    /virtualInclude\s+["'](.+?)["'](?:\s+\w+=\S+)*\s+with\s+["']([^"']+)["']/;
+
+  /**
+   * Regex to extract a line range selector from include directive
+   * Matches patterns like: virtualInclude 'file.py' lines=10-42 or lines=10-
+   */
+  public static readonly LINE_RANGE_REGEX =
+    /virtualInclude\s+["'].+?["'].*?\slines=(\d+)-(\d*)/;
+
+  /**
+   * Regex to extract a symbol selector from include directive
+   * Matches patterns like: virtualInclude 'models/user.py' symbol=User.save
+   */
+  public static readonly SYMBOL_REGEX =
+    /virtualInclude\s+["'].+?["'].*?\ssymbol=([\w$.]+)/;
+
+  /**
+   * Regex to extract the content hashes from a start marker
+   * Matches patterns like: [content:1a2b3c4d source:5e6f7a8b]
+   */
+  public static readonly MARKER_HASHES_REGEX =
+    /\s*\[content:([0-9a-f]{8}) source:([0-9a-f]{8})\]/;
+
+  /**
+   * Extracts comment style override from include directive
+   *
+   * @param line
+   * @returns string|null
+   */
+  public static getCommentStyleOverride(line: string): string | null {
+    const match = line.match(this.COMMENT_OVERRIDE_REGEX);
+    return match ? match[2] : null;
+  }
+
+  /**
+   * Extracts the line range selector from include directive
+   *
+   * @param line
+   * @returns LineRange|null
+   */
+  public static getLineRange(line: string): LineRange | null {
+    const match = line.match(this.LINE_RANGE_REGEX);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      start: parseInt(match[1], 10),
+      end: match[2] ? parseInt(match[2], 10) : null,
+    };
+  }
+
+  /**
+   * Extracts the symbol selector from include directive
+   *
+   * @param line
+   * @returns string|null The dotted symbol path, e.g. "User.save"
+   */
+  public static getSymbolPath(line: string): string | null {
+    const match = line.match(this.SYMBOL_REGEX);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Splits a region selector off an include path
+   * e.g. 'utils.py#retry-logic' -> { filePath: 'utils.py', region: 'retry-logic' }
+   *
+   * @param includePath
+   * @returns {filePath: string, region: string|null}
+   */
+  public static splitRegion(includePath: string): {
+    filePath: string;
+    region: string | null;
+  } {
+    const hashIndex = includePath.lastIndexOf("#");
+    if (hashIndex <= 0 || hashIndex === includePath.length - 1) {
+      return { filePath: includePath, region: null };
+    }
+
+    return {
+      filePath: includePath.substring(0, hashIndex),
+      region: includePath.substring(hashIndex + 1),
+    };
+  }
+
+  /**
+   * Extracts the content hashes from a start marker
+   *
+   * @param line
+   * @returns MarkerHashes|null
+   */
+  public static getMarkerHashes(line: string): MarkerHashes | null {
+    const match = line.match(this.MARKER_HASHES_REGEX);
+    return match ? { content: match[1], source: match[2] } : null;
+  }
+
+  /**
+   * Checks if a line is the marker of a template, with or without content hashes
+   *
+   * @param line
+   * @param template The start or end marker template
+   * @returns bool
+   */
+  public static isMarker(line: string, template: string): boolean {
+    return (
+      line.replace(this.MARKER_HASHES_REGEX, "").trim() === template.trim()
+    );
+  }
+
+  /**
+   * Adds content hashes to a start marker, in front of the closing comment delimiter if the
+   * marker ends with one (e.g. HTML's -->)
+   *
+   * @param marker The start marker
+   * @param commentEnd The closing comment delimiter of the marker's comment style
+   * @param hashes
+   * @returns string
+   */
+  public static addMarkerHashes(
+    marker: string,
+    commentEnd: string,
+    hashes: MarkerHashes,
+  ): string {
+    const tag = `[content:${hashes.content} source:${hashes.source}]`;
+    const trimmed = marker.trimEnd();
+
+    if (commentEnd && trimmed.endsWith(commentEnd)) {
+      const body = trimmed.substring(0, trimmed.length - commentEnd.length);
+      return `${body.trimEnd()} ${tag} ${commentEnd}`;
+    }
+    return `${trimmed} ${tag}`;
+  }
+
+  /**
+   * Calculates the short hash of a text that is stored in start markers
+   *
+   * @param text
+   * @returns string 8 hexadecimal characters
+   */
+  public static hashContent(text: string): string {
+    return createHash("sha256").update(text, "utf8").digest("hex").slice(0, 8);
+  }
+
+  /**
+   * Replaces "virtualInclude" with "virtualInclude-nested" in a directive, so that it is
+   * no longer processed. Only the exact directive pattern is replaced, not any occurrence
+   * of "virtualInclude".
+   *
+   * @param line
+   * @returns string
+   */
+  public static neutralizeDirective(line: string): string {
+    return line.replace(
+      /(\s*\S+\s+)virtualInclude(\s+["'].+?["'])/,
+      "$1virtualInclude-nested (edit source file to modify)$2",
+    );
+  }
+}
+
+/**
+ * This interface defines the hashes stored in a start marker: of the block content as it was
+ * inserted, and of the source content it was expanded from.
+ */
+export interface MarkerHashes {
+  content: string;
+  source: string;
+}
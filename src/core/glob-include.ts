@@ -0,0 +1,82 @@
+import * as fs from "fs";
+import * as path from "path";
+import { globSync } from "glob";
+
+/**
+ * The GlobInclude class supports include directives whose path is a glob pattern, such as
+ * virtualInclude 'snippets/*.sql'. Such a directive inlines every matching file, which is
+ * useful for collecting all migration snippets or all route definitions in one place.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the DocumentProcessor encounters a glob include, it resolves the pattern like any other
+ * include path and asks the GlobInclude class for the matching files:
+ *
+ * - The pattern is split into a base directory (the segments before the first glob character)
+ *   and a relative pattern, which is also what the FileWatcher needs for its RelativePattern
+ * - Matching files are returned in a stable sorted order, so the expanded content only changes
+ *   when the files do
+ *
+ * Directories are never matched, and a base directory that does not exist simply yields no files.
+ */
+export class GlobInclude {
+  // Characters that turn an include path into a glob pattern
+  private static readonly GLOB_CHARS_REGEX = /[*?[\]{}]/;
+
+  /**
+   * Checks if an include path is a glob pattern.
+   *
+   * @param includePath
+   * @returns boolean
+   */
+  public static isGlobPattern(includePath: string): boolean {
+    return this.GLOB_CHARS_REGEX.test(includePath);
+  }
+
+  /**
+   * Splits an absolute glob pattern into the directory before the first glob segment and
+   * the pattern relative to that directory (always using forward slashes).
+   *
+   * @param pattern
+   * @returns {baseDir: string, relativePattern: string}
+   */
+  public static splitPattern(pattern: string): {
+    baseDir: string;
+    relativePattern: string;
+  } {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlobIndex = segments.findIndex((segment) =>
+      this.GLOB_CHARS_REGEX.test(segment),
+    );
+
+    if (firstGlobIndex === -1) {
+      return {
+        baseDir: path.dirname(pattern),
+        relativePattern: path.basename(pattern),
+      };
+    }
+
+    return {
+      baseDir: segments.slice(0, firstGlobIndex).join(path.sep) || path.sep,
+      relativePattern: segments.slice(firstGlobIndex).join("/"),
+    };
+  }
+
+  /**
+   * Finds the files matching an absolute glob pattern, sorted by path.
+   *
+   * @param pattern
+   * @returns string[] absolute paths
+   */
+  public static findMatches(pattern: string): string[] {
+    const { baseDir, relativePattern } = this.splitPattern(pattern);
+
+    if (!fs.existsSync(baseDir)) {
+      return [];
+    }
+
+    return globSync(relativePattern, { cwd: baseDir, nodir: true })
+      .map((match) => path.join(baseDir, match))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+}
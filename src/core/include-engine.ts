@@ -0,0 +1,922 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CommentStyle,
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeConfig,
+  LanguageSettings,
+} from "./config";
+import { ContentExtractor, LineRange } from "./content-extractor";
+import { DirectiveSyntax, MarkerHashes } from "./directive-syntax";
+import { GlobInclude } from "./glob-include";
+import { LanguageRules } from "./language-rules";
+import { MarkerChecker, MarkerProblem } from "./marker-checker";
+import { NestedIncludeExpander } from "./nested-include-expander";
+import { PathResolver } from "./path-resolver";
+
+/**
+ * The include-engine module is the headless core of Virtual Include: it takes the text of a
+ * document and returns the expanded text plus metadata about every include, without depending
+ * on VSCode. The extension wraps it (DocumentProcessor, DiagnosticsManager), and the same rules
+ * can run in build scripts, unit tests and other editors.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * - findDirectives scans the text for include directives, using the comment style that applies
+ *   on each line (see LanguageRules), and parses their paths and selectors
+ * - resolve reads the included file(s) through an IncludeHost, applies the selectors, expands
+ *   nested includes when enabled and collects the problems it runs into
+ * - process compares every resolved include with the block between its start and end markers
+ *   and returns the expanded text together with the line-based edits that produce it
+ * - checkMarkers reports markers that don't belong to a block below a directive; process leaves
+ *   such blocks alone instead of guessing where they end
+ *
+ * With contentHashes enabled, process writes the hashes of the block and of its source into the
+ * start marker. A block whose content no longer matches its own hash was edited by hand (e.g.
+ * with sed or another editor); it is reported as "modified" and left alone unless
+ * overwriteModified is set, so the edits are not silently lost. A block that still matches its
+ * hash but not the source is simply "stale".
+ *
+ * All file access goes through the IncludeHost, which defaults to the file system. Callers that
+ * can resolve symbols (the extension, through the document symbol provider) pass a host with
+ * resolveSymbol; without it symbol selectors are reported as unsupported.
+ */
+export class IncludeEngine {
+  private _rules: LanguageRules;
+  private _expander: NestedIncludeExpander;
+  private _markerChecker: MarkerChecker;
+
+  constructor(
+    config: IncludeConfig = DEFAULT_INCLUDE_CONFIG,
+    private _host: IncludeHost = NODE_INCLUDE_HOST,
+  ) {
+    this._rules = new LanguageRules(config);
+    this._expander = new NestedIncludeExpander(this);
+    this._markerChecker = new MarkerChecker(this);
+  }
+
+  get rules(): LanguageRules {
+    return this._rules;
+  }
+
+  get host(): IncludeHost {
+    return this._host;
+  }
+
+  /**
+   * Finds all include directives in a text:
+   *
+   * 1. Matches each line with the settings that apply in its context
+   * 2. Prefers the path of the 'with' syntax when present
+   * 3. Parses the region, line range and symbol selectors
+   * 4. Resolves the path relative to the document or in the search paths
+   *
+   * @param text The text of the document
+   * @param documentPath The path of the document, used to resolve relative includes
+   * @param languageId The language of the document
+   * @returns IncludeDirective[]
+   */
+  public findDirectives(
+    text: string,
+    documentPath: string,
+    languageId: string,
+  ): IncludeDirective[] {
+    const lines = text.split("\n");
+    const getLine = (lineNumber: number) => lines[lineNumber] ?? "";
+    const directives: IncludeDirective[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const context = { getLine, languageId, lineNumber: i, line };
+      const match = line.match(
+        this._rules.getContextAwareSettings(context).includeDirectivePattern,
+      );
+
+      if (!match) {
+        continue;
+      }
+
+      // Check first for the override pattern with 'with' syntax
+      const overrideMatch = line.match(DirectiveSyntax.COMMENT_OVERRIDE_REGEX);
+      const includePath = overrideMatch ? overrideMatch[1] : match[1];
+      const { filePath, region } = DirectiveSyntax.splitRegion(includePath);
+      const { resolvedPath, searchPath } = this._resolvePath(
+        documentPath,
+        includePath,
+      );
+      const column = line.indexOf(match[0]);
+
+      directives.push({
+        line: i,
+        text: line,
+        range: { start: column, end: column + match[0].length },
+        includePath,
+        filePath,
+        region,
+        lineRange: DirectiveSyntax.getLineRange(line),
+        symbolPath: DirectiveSyntax.getSymbolPath(line),
+        resolvedPath,
+        searchPath,
+        isGlob: GlobInclude.isGlobPattern(filePath),
+        isSelfInclude: PathResolver.isSamePath(resolvedPath, documentPath),
+        indentation: line.match(/^(\s*)/)?.[1] || "",
+        settings: this._rules.getContextAwareSettings({
+          ...context,
+          includedFilePath: resolvedPath,
+        }),
+        commentStyle: this._rules.getContextAwareCommentStyle({
+          ...context,
+          includedFilePath: resolvedPath,
+        }),
+      });
+    }
+
+    return directives;
+  }
+
+  /**
+   * Resolves an include path relative to the document that contains it, or to the workspace
+   * folder or alias it starts with. A bare path that doesn't exist there is looked up in the
+   * configured search paths.
+   *
+   * @param documentPath The path of the including document (or the including source file)
+   * @param includePath The include path as written in the directive
+   * @returns string The resolved path, which may not exist
+   */
+  public resolvePath(documentPath: string, includePath: string): string {
+    return this._resolvePath(documentPath, includePath).resolvedPath;
+  }
+
+  /**
+   * Reads the content an include directive refers to. Glob includes concatenate every matching
+   * file (except the document itself) in a stable sorted order, optionally preceded by a header
+   * comment per file; matching files whose selection fails are left out.
+   *
+   * @param directive
+   * @param documentPath The path of the including document
+   * @param languageId The language of the including document
+   * @returns IncludeResolution with null content if the include can't be expanded
+   */
+  public resolve(
+    directive: IncludeDirective,
+    documentPath: string,
+    languageId: string,
+  ): IncludeResolution {
+    const resolution: IncludeResolution = {
+      content: null,
+      sources: [],
+      nestedSources: [],
+      problems: [],
+    };
+
+    if (directive.isGlob) {
+      const matches = this._host
+        .findMatches(directive.resolvedPath)
+        .filter((match) => !PathResolver.isSamePath(match, documentPath));
+
+      if (matches.length === 0) {
+        resolution.problems.push({
+          kind: "noGlobMatches",
+          severity: "warning",
+          message: `No files match included pattern: ${directive.includePath}`,
+        });
+      }
+
+      const { start, end } = directive.commentStyle;
+      const parts: string[] = [];
+      for (const sourcePath of matches) {
+        const content = this._readSource(
+          directive,
+          sourcePath,
+          documentPath,
+          languageId,
+          resolution,
+          false,
+        );
+        if (content === null) {
+          continue;
+        }
+
+        if (this._rules.config.globFileHeaders) {
+          const relativePath = path
+            .relative(path.dirname(documentPath), sourcePath)
+            .split(path.sep)
+            .join("/");
+          parts.push(`${start} ${relativePath}${end ? ` ${end}` : ""}`);
+        }
+
+        // Drop the trailing newline of each file, the files are joined by newlines
+        parts.push(content.endsWith("\n") ? content.slice(0, -1) : content);
+      }
+
+      resolution.content = parts.join("\n");
+      return resolution;
+    }
+
+    if (!this._host.exists(directive.resolvedPath)) {
+      const searchDirectories = PathResolver.getSearchDirectories(
+        directive.includePath,
+        this._rules.config.searchPaths,
+        this._rules.config,
+      );
+      resolution.problems.push({
+        kind: "missingFile",
+        severity: "error",
+        message:
+          `Cannot find included file: ${directive.includePath} (looked for ${directive.resolvedPath}` +
+          (searchDirectories.length > 0
+            ? ` and in the search paths ${searchDirectories.join(", ")})`
+            : ")"),
+      });
+      return resolution;
+    }
+
+    resolution.content = this._readSource(
+      directive,
+      directive.resolvedPath,
+      documentPath,
+      languageId,
+      resolution,
+      true,
+    );
+    return resolution;
+  }
+
+  /**
+   * Narrows the source content down to the selection requested by the directive
+   * (e.g. symbol=User.save, 'utils.py#retry-logic' or lines=10-42). A line range is
+   * applied within the selected symbol or region.
+   *
+   * @param content The full content of the included file
+   * @param selectors The selectors of the directive
+   * @param sourcePath The resolved path of the included file
+   * @param languageId Language to use when the source language can't be detected
+   * @returns IncludeSelection with null content and a problem if the selection fails
+   */
+  public select(
+    content: string,
+    selectors: IncludeSelectors,
+    sourcePath: string,
+    languageId: string,
+  ): IncludeSelection {
+    let selected: string | null = content;
+
+    if (selectors.symbolPath) {
+      if (!this._host.resolveSymbol) {
+        return this._failSelection(
+          "unsupportedSelector",
+          `Symbol selectors are not supported here: ${selectors.includePath}`,
+        );
+      }
+
+      const symbolRange = this._host.resolveSymbol(
+        sourcePath,
+        selectors.symbolPath,
+      );
+      selected = symbolRange
+        ? ContentExtractor.extractBlock(selected, symbolRange)
+        : null;
+
+      if (selected === null) {
+        return this._failSelection(
+          "missingSymbol",
+          `Cannot find symbol "${selectors.symbolPath}" in included file: ${sourcePath}`,
+        );
+      }
+    } else if (selectors.region) {
+      selected = ContentExtractor.extractRegion(
+        selected,
+        selectors.region,
+        this._rules.getCommentStyleForFile(sourcePath, languageId),
+        {
+          start: this._rules.config.regionStartMarker,
+          end: this._rules.config.regionEndMarker,
+        },
+      );
+
+      if (selected === null) {
+        return this._failSelection(
+          "missingRegion",
+          `Cannot find region "${selectors.region}" in included file: ${DirectiveSyntax.splitRegion(selectors.includePath).filePath}`,
+        );
+      }
+    }
+
+    if (selectors.lineRange) {
+      const lines = ContentExtractor.extractLines(
+        selected,
+        selectors.lineRange,
+      );
+
+      if (lines === null) {
+        const { start, end } = selectors.lineRange;
+        return this._failSelection(
+          "lineRangeOutside",
+          `Line range ${start}-${end ?? ""} is outside ${selectors.includePath} (${ContentExtractor.countLines(selected)} lines)`,
+        );
+      }
+
+      selected = lines;
+    }
+
+    return { content: selected, problem: null };
+  }
+
+  /**
+   * Locates the lines of a source file that the selectors of a directive select, so editors can
+   * reveal the included part of the file. Selectors are combined like in select: a line range
+   * counts from the start of the selected symbol or region.
+   *
+   * @param content The full content of the included file
+   * @param selectors The selectors of the directive
+   * @param sourcePath The resolved path of the included file
+   * @param languageId Language to use when the source language can't be detected
+   * @returns LineRange|null The 1-based lines, or null for the whole file (or a failed selection)
+   */
+  public locate(
+    content: string,
+    selectors: IncludeSelectors,
+    sourcePath: string,
+    languageId: string,
+  ): LineRange | null {
+    let located: LineRange | null = null;
+
+    if (selectors.symbolPath) {
+      located =
+        this._host.resolveSymbol?.(sourcePath, selectors.symbolPath) ?? null;
+    } else if (selectors.region) {
+      located = ContentExtractor.findRegion(
+        content,
+        selectors.region,
+        this._rules.getCommentStyleForFile(sourcePath, languageId),
+        {
+          start: this._rules.config.regionStartMarker,
+          end: this._rules.config.regionEndMarker,
+        },
+      );
+    }
+
+    if (selectors.lineRange) {
+      const offset = located ? located.start - 1 : 0;
+      const end = located?.end ?? ContentExtractor.countLines(content);
+      return {
+        start: Math.min(offset + selectors.lineRange.start, end),
+        end: Math.min(offset + (selectors.lineRange.end ?? end), end),
+      };
+    }
+
+    return located;
+  }
+
+  /**
+   * Expands all includes of a document:
+   *
+   * 1. Resolves every directive (self-includes are skipped)
+   * 2. Compares the content between the start and end markers with the source content,
+   *    accounting for indentation and neutralized nested directives
+   * 3. Creates an edit for every include that is new or out of date, skipping blocks that were
+   *    edited by hand (see contentHashes) unless overwriteModified is set
+   * 4. Applies the edits to produce the expanded text
+   *
+   * @param text The text of the document
+   * @param documentPath The path of the document, used to resolve relative includes
+   * @param languageId The language of the document
+   * @param options
+   * @returns IncludeProcessResult
+   */
+  public process(
+    text: string,
+    documentPath: string,
+    languageId: string,
+    options: IncludeProcessOptions = {},
+  ): IncludeProcessResult {
+    const lines = text.split("\n");
+    const documentSettings = this._rules.getLanguageSettings(languageId);
+    const includes: IncludeResult[] = [];
+    const edits: IncludeEdit[] = [];
+
+    // Directives inside an existing block belong to that block, not to the document
+    let blockEnd = -1;
+
+    for (const directive of this.findDirectives(
+      text,
+      documentPath,
+      languageId,
+    )) {
+      if (directive.line <= blockEnd) {
+        continue;
+      }
+
+      if (directive.isSelfInclude) {
+        includes.push({ directive, status: "selfInclude", resolution: null });
+        continue;
+      }
+
+      const { indentation, settings } = directive;
+      const startLine = directive.line + 1;
+      const isMarker = (line: string | undefined, template: keyof Markers) =>
+        line !== undefined &&
+        (DirectiveSyntax.isMarker(line, documentSettings[template]) ||
+          DirectiveSyntax.isMarker(line, settings[template]));
+
+      // Blocks may contain the blocks of a source file that was processed itself
+      let endLine = -1;
+      if (isMarker(lines[startLine], "startMarkerTemplate")) {
+        let depth = 0;
+        for (let j = startLine + 1; j < lines.length && endLine === -1; j++) {
+          if (isMarker(lines[j], "startMarkerTemplate")) {
+            depth++;
+          } else if (isMarker(lines[j], "endMarkerTemplate")) {
+            endLine = depth === 0 ? j : -1;
+            depth--;
+          }
+        }
+      }
+      const block: IncludeBlock | null =
+        endLine === -1 ? null : { startLine, endLine };
+
+      const resolution = this.resolve(directive, documentPath, languageId);
+      if (resolution.content === null) {
+        const missing = resolution.problems.some(
+          (problem) => problem.kind === "missingFile",
+        );
+        includes.push({
+          directive,
+          status: missing ? "missing" : "invalidSelection",
+          resolution,
+          block,
+        });
+        // The block stays until the include can be resolved again
+        blockEnd = Math.max(blockEnd, endLine);
+        continue;
+      }
+
+      const contentLines = this.renderContent(
+        resolution.content,
+        indentation,
+        languageId,
+      );
+      const content = contentLines.join("\n");
+
+      const hashes: MarkerHashes | null = this._rules.config.contentHashes
+        ? {
+            content: DirectiveSyntax.hashContent(content),
+            source: DirectiveSyntax.hashContent(resolution.content),
+          }
+        : null;
+      const startMarker = hashes
+        ? DirectiveSyntax.addMarkerHashes(
+            indentation + settings.startMarkerTemplate,
+            directive.commentStyle.end,
+            hashes,
+          )
+        : indentation + settings.startMarkerTemplate;
+      const blockLines = [
+        startMarker,
+        ...contentLines,
+        indentation + settings.endMarkerTemplate,
+      ];
+
+      const addResult = (status: IncludeStatus, edit?: IncludeEdit) => {
+        if (edit) {
+          edits.push(edit);
+        }
+        includes.push({
+          directive,
+          status,
+          resolution,
+          edit,
+          markerHashes: isMarker(lines[startLine], "startMarkerTemplate")
+            ? DirectiveSyntax.getMarkerHashes(lines[startLine])
+            : null,
+          block,
+        });
+      };
+
+      if (!isMarker(lines[startLine], "startMarkerTemplate")) {
+        // Not expanded yet, insert the block below the directive
+        addResult("notExpanded", {
+          startLine,
+          endLine: startLine,
+          lines: [...blockLines, ""],
+        });
+        continue;
+      }
+
+      if (endLine === -1) {
+        // End marker missing, checkMarkers reports the block and suggests how to repair it
+        addResult("unterminated");
+        continue;
+      }
+
+      blockEnd = endLine;
+      const currentContent = lines.slice(startLine + 1, endLine).join("\n");
+      const markerHashes = DirectiveSyntax.getMarkerHashes(lines[startLine]);
+
+      // Hashes are only rewritten when they are enabled, or removed when they are not
+      const markerOutdated = hashes
+        ? markerHashes?.content !== hashes.content ||
+          markerHashes?.source !== hashes.source
+        : markerHashes !== null;
+
+      if (currentContent === content) {
+        if (!markerOutdated) {
+          addResult("upToDate");
+        } else {
+          addResult("stale", {
+            startLine,
+            endLine: startLine + 1,
+            lines: [startMarker],
+          });
+        }
+        continue;
+      }
+
+      // The block no longer matches the hash it was written with, so it was edited by hand
+      if (
+        markerHashes &&
+        DirectiveSyntax.hashContent(currentContent) !== markerHashes.content
+      ) {
+        addResult(
+          "modified",
+          options.overwriteModified
+            ? { startLine, endLine: endLine + 1, lines: blockLines }
+            : undefined,
+        );
+        continue;
+      }
+
+      addResult("stale", {
+        startLine,
+        endLine: endLine + 1,
+        lines: blockLines,
+      });
+    }
+
+    return {
+      text: IncludeEngine.applyEdits(text, edits),
+      changed: edits.length > 0,
+      includes,
+      edits,
+    };
+  }
+
+  /**
+   * Finds start and end markers that don't form a proper block below a directive, with fixes for
+   * them (see MarkerChecker).
+   *
+   * @param text The text of the document
+   * @param documentPath The path of the document, used to resolve relative includes
+   * @param languageId The language of the document
+   * @returns MarkerProblem[]
+   */
+  public checkMarkers(
+    text: string,
+    documentPath: string,
+    languageId: string,
+  ): MarkerProblem[] {
+    return this._markerChecker.check(text, documentPath, languageId);
+  }
+
+  /**
+   * Turns resolved content into the lines of a block: indented like the directive, with nested
+   * directives neutralized.
+   *
+   * @param content The resolved content
+   * @param indentation The indentation of the directive
+   * @param languageId The language of the document
+   * @returns string[]
+   */
+  public renderContent(
+    content: string,
+    indentation: string,
+    languageId: string,
+  ): string[] {
+    return this._neutralizeNestedIncludes(
+      content
+        .split("\n")
+        .map((line) => (line.length > 0 ? indentation + line : line)),
+      this._rules.getLanguageSettings(languageId),
+    );
+  }
+
+  /**
+   * Applies line-based edits (as returned by process) to a text.
+   *
+   * @param text
+   * @param edits Non-overlapping edits, relative to the lines of the text
+   * @returns string
+   */
+  public static applyEdits(text: string, edits: IncludeEdit[]): string {
+    const lines = text.split("\n");
+
+    // Apply from the bottom up, so the line numbers of earlier edits stay valid
+    for (const edit of [...edits].sort((a, b) => b.startLine - a.startLine)) {
+      lines.splice(
+        edit.startLine,
+        edit.endLine - edit.startLine,
+        ...edit.lines,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Resolves an include path like resolvePath, remembering the search path the file was found in.
+   *
+   * @param documentPath
+   * @param includePath
+   * @returns {resolvedPath: string, searchPath: string|null}
+   */
+  private _resolvePath(
+    documentPath: string,
+    includePath: string,
+  ): { resolvedPath: string; searchPath: string | null } {
+    const config = this._rules.config;
+    const resolvedPath = PathResolver.resolveIncludePath(
+      documentPath,
+      includePath,
+      config,
+    );
+    if (config.searchPaths.length === 0 || this._host.exists(resolvedPath)) {
+      return { resolvedPath, searchPath: null };
+    }
+
+    return (
+      PathResolver.findInSearchPaths(
+        includePath,
+        config.searchPaths,
+        (filePath) => this._host.exists(filePath),
+        config,
+      ) ?? { resolvedPath, searchPath: null }
+    );
+  }
+
+  /**
+   * Reads one included file, applies the directive's selectors and (if enabled) expands
+   * nested includes, recording the sources and (optionally) the problems in the resolution.
+   *
+   * @param directive
+   * @param sourcePath The resolved path of the included file
+   * @param documentPath The path of the including document
+   * @param languageId The language of the including document
+   * @param resolution The resolution to record sources and problems in
+   * @param reportProblems Whether problems of this file are reported
+   * @returns The content to include, or null if the selection failed
+   */
+  private _readSource(
+    directive: IncludeDirective,
+    sourcePath: string,
+    documentPath: string,
+    languageId: string,
+    resolution: IncludeResolution,
+    reportProblems: boolean,
+  ): string | null {
+    resolution.sources.push(sourcePath);
+
+    const selection = this.select(
+      this._host.readFile(sourcePath),
+      directive,
+      sourcePath,
+      languageId,
+    );
+
+    if (selection.content === null) {
+      if (reportProblems && selection.problem) {
+        resolution.problems.push(selection.problem);
+      }
+      return null;
+    }
+
+    if (!this._rules.config.expandNestedIncludes) {
+      return selection.content;
+    }
+
+    const expansion = this._expander.expand(
+      selection.content,
+      sourcePath,
+      [path.normalize(documentPath), sourcePath],
+      languageId,
+    );
+    resolution.nestedSources.push(...expansion.sources);
+
+    if (reportProblems && expansion.cycle) {
+      resolution.problems.push({
+        kind: "cycle",
+        severity: "error",
+        message: `Include cycle detected: ${expansion.cycle.join(" → ")}`,
+        cycle: expansion.cycle,
+      });
+    }
+
+    if (reportProblems && expansion.depthExceeded) {
+      resolution.problems.push({
+        kind: "depthExceeded",
+        severity: "warning",
+        message: `Nested includes exceed the maximum depth of ${this._rules.config.maxIncludeDepth}`,
+      });
+    }
+
+    return expansion.content;
+  }
+
+  /**
+   * Neutralizes any include directives in the included content
+   * to prevent them from being processed and causing infinite includes
+   *
+   * @param lines The (indented) lines of the content
+   * @param languageSettings The language settings for correct pattern matching
+   * @returns The lines with neutralized include directives
+   */
+  private _neutralizeNestedIncludes(
+    lines: string[],
+    languageSettings: LanguageSettings,
+  ): string[] {
+    const includeRegex = new RegExp(languageSettings.includeDirectivePattern);
+
+    return lines.map((line) =>
+      !DirectiveSyntax.isMarker(line, languageSettings.startMarkerTemplate) &&
+      !DirectiveSyntax.isMarker(line, languageSettings.endMarkerTemplate) &&
+      includeRegex.test(line)
+        ? DirectiveSyntax.neutralizeDirective(line)
+        : line,
+    );
+  }
+
+  /**
+   * Creates the result of a failed selection.
+   *
+   * @param kind
+   * @param message
+   * @returns IncludeSelection
+   */
+  private _failSelection(
+    kind: IncludeProblemKind,
+    message: string,
+  ): IncludeSelection {
+    return {
+      content: null,
+      problem: {
+        kind,
+        severity: kind === "unsupportedSelector" ? "warning" : "error",
+        message,
+      },
+    };
+  }
+}
+
+/**
+ * This interface defines how the engine accesses files. The default host uses the file system;
+ * resolveSymbol is optional because locating symbols needs a language server.
+ */
+export interface IncludeHost {
+  readFile(filePath: string): string;
+  exists(filePath: string): boolean;
+  findMatches(pattern: string): string[];
+  resolveSymbol?(filePath: string, symbolPath: string): LineRange | null;
+}
+
+/**
+ * The default host, reading files from the file system.
+ */
+export const NODE_INCLUDE_HOST: IncludeHost = {
+  readFile: (filePath) => fs.readFileSync(filePath, "utf8"),
+  exists: (filePath) => fs.existsSync(filePath),
+  findMatches: (pattern) => GlobInclude.findMatches(pattern),
+};
+
+/**
+ * This interface defines the selectors of a directive that narrow down the included content.
+ */
+export interface IncludeSelectors {
+  includePath: string;
+  region: string | null;
+  lineRange: LineRange | null;
+  symbolPath: string | null;
+}
+
+/**
+ * This interface defines an include directive found in a document. Line numbers are 0-based,
+ * the range holds the columns of the matched directive.
+ */
+export interface IncludeDirective extends IncludeSelectors {
+  line: number;
+  text: string;
+  range: { start: number; end: number };
+  filePath: string;
+  resolvedPath: string;
+  // The search path the included file was found in, null if it was resolved from the document
+  searchPath: string | null;
+  isGlob: boolean;
+  isSelfInclude: boolean;
+  indentation: string;
+  settings: LanguageSettings;
+  commentStyle: CommentStyle;
+}
+
+export type IncludeProblemKind =
+  | "missingFile"
+  | "noGlobMatches"
+  | "missingRegion"
+  | "lineRangeOutside"
+  | "missingSymbol"
+  | "unsupportedSelector"
+  | "cycle"
+  | "depthExceeded";
+
+/**
+ * This interface defines a problem found while resolving an include.
+ */
+export interface IncludeProblem {
+  kind: IncludeProblemKind;
+  severity: "error" | "warning";
+  message: string;
+  cycle?: string[];
+}
+
+/**
+ * This interface defines the result of applying the selectors of a directive.
+ */
+export interface IncludeSelection {
+  content: string | null;
+  problem: IncludeProblem | null;
+}
+
+/**
+ * This interface defines the result of resolving a directive: the content to include (null if
+ * it can't be included), the files that were read directly and through nested includes, and
+ * the problems that were found.
+ */
+export interface IncludeResolution {
+  content: string | null;
+  sources: string[];
+  nestedSources: string[];
+  problems: IncludeProblem[];
+}
+
+export type IncludeStatus =
+  | "upToDate"
+  | "stale"
+  | "modified"
+  | "notExpanded"
+  | "unterminated"
+  | "missing"
+  | "invalidSelection"
+  | "selfInclude";
+
+/**
+ * This interface defines the state of one include after processing a document: the edit that
+ * updates it (if any), the hashes found in its start marker (if any) and its existing block (if
+ * it has one with both markers).
+ */
+export interface IncludeResult {
+  directive: IncludeDirective;
+  status: IncludeStatus;
+  resolution: IncludeResolution | null;
+  edit?: IncludeEdit;
+  markerHashes?: MarkerHashes | null;
+  block?: IncludeBlock | null;
+}
+
+/**
+ * This interface defines the lines of the start and end marker of an expanded block (0-based,
+ * inclusive).
+ */
+export interface IncludeBlock {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * This interface defines the options of processing a document.
+ */
+export interface IncludeProcessOptions {
+  // Replace blocks that were edited by hand instead of reporting them as modified
+  overwriteModified?: boolean;
+}
+
+/**
+ * This interface defines an edit that replaces the lines startLine (inclusive) to endLine
+ * (exclusive) of the original text. An insertion has equal start and end lines.
+ */
+export interface IncludeEdit {
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+/**
+ * This interface defines the result of processing a document.
+ */
+export interface IncludeProcessResult {
+  text: string;
+  changed: boolean;
+  includes: IncludeResult[];
+  edits: IncludeEdit[];
+}
+
+type Markers = Pick<
+  LanguageSettings,
+  "startMarkerTemplate" | "endMarkerTemplate"
+>;
@@ -0,0 +1,17 @@
+/**
+ * The headless core of Virtual Include. Everything exported here works on plain strings and
+ * paths, without VSCode, so it can be used from build scripts, unit tests and other editors:
+ *
+ *   const engine = new IncludeEngine({ ...DEFAULT_INCLUDE_CONFIG, expandNestedIncludes: true });
+ *   const result = engine.process(text, "/repo/docs/guide.md", "markdown");
+ */
+export * from "./config";
+export * from "./config-files";
+export * from "./content-extractor";
+export * from "./directive-syntax";
+export * from "./glob-include";
+export * from "./include-engine";
+export * from "./language-rules";
+export * from "./marker-checker";
+export * from "./nested-include-expander";
+export * from "./path-resolver";
@@ -0,0 +1,450 @@
+import {
+  CommentStyle,
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeConfig,
+  LanguageSettings,
+  SectionOverride,
+} from "./config";
+import { DirectiveSyntax } from "./directive-syntax";
+
+/**
+ * The LanguageRules class determines the appropriate comment styles and virtual include patterns
+ * for different programming languages, based on a plain IncludeConfig. It holds the rules that
+ * the extension's LanguageService applies with the VSCode configuration, so that headless callers
+ * get exactly the same behavior.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * - getCommentStyle maps a language ID to its comment syntax (// for JavaScript, # for Python, etc.),
+ *   looking at the configured commentStyles (the extension reads them from the language
+ *   configurations of installed VSCode extensions) before the built-in table
+ * - getLanguageSettings builds the directive pattern and marker templates from that comment style
+ *   and merges the user's languageSettings on top
+ * - getContextAwareSettings picks the settings that apply on a specific line, honoring (in order)
+ *   the 'with' override in the directive, section overrides (e.g. JavaScript inside HTML script
+ *   tags), the included file's extension and finally the document's language
+ *
+ * Lines are passed as an accessor function rather than a document, so the rules work on plain
+ * strings as well as on VSCode documents.
+ */
+export class LanguageRules {
+  // A static mapping of language IDs to their corresponding comment symbols, used for languages
+  // without configured comment styles
+  private static readonly COMMENT_STYLES: Record<string, CommentStyle> = {
+    javascript: { start: "//", end: "" },
+    typescript: { start: "//", end: "" },
+    python: { start: "#", end: "" },
+    ruby: { start: "#", end: "" },
+    powershell: { start: "#", end: "" },
+    shellscript: { start: "#", end: "" },
+    csharp: { start: "//", end: "" },
+    java: { start: "//", end: "" },
+    c: { start: "//", end: "" },
+    cpp: { start: "//", end: "" },
+    go: { start: "//", end: "" },
+    rust: { start: "//", end: "" },
+    php: { start: "//", end: "" },
+    perl: { start: "#", end: "" },
+    lua: { start: "--", end: "" },
+    sql: { start: "--", end: "" },
+    yaml: { start: "#", end: "" },
+    html: { start: "<!--", end: "-->" },
+    xml: { start: "<!--", end: "-->" },
+    css: { start: "/*", end: "*/" },
+  };
+
+  /**
+   * File extension to language ID mapping
+   */
+  public static readonly EXTENSION_TO_LANGUAGE: Record<string, string> = {
+    ".js": "javascript",
+    ".ts": "typescript",
+    ".py": "python",
+    ".rb": "ruby",
+    ".ps1": "powershell",
+    ".sh": "shellscript",
+    ".cs": "csharp",
+    ".java": "java",
+    ".c": "c",
+    ".cpp": "cpp",
+    ".go": "go",
+    ".rs": "rust",
+    ".php": "php",
+    ".pl": "perl",
+    ".lua": "lua",
+    ".sql": "sql",
+    ".yaml": "yaml",
+    ".yml": "yaml",
+    ".html": "html",
+    ".xml": "xml",
+    ".css": "css",
+  };
+
+  /**
+   * Built-in section overrides for common cases
+   */
+  private static readonly BUILT_IN_SECTION_OVERRIDES: SectionOverride[] = [
+    {
+      // JavaScript inside HTML script tags
+      fileType: "html",
+      pattern: "<script[^>]*>\\s*",
+      commentStyle: "//",
+      continueUntil: "</script>",
+    },
+    {
+      // lua-resty-template inside YAML template sections
+      fileType: "yaml",
+      pattern: "template:\\s*>-",
+      commentStyle: "{#",
+      commentEnd: "#}",
+      continueUntil: "^\\S",
+    },
+  ];
+
+  constructor(private _config: IncludeConfig) {}
+
+  get config(): IncludeConfig {
+    return this._config;
+  }
+
+  /**
+   * Return comment style for a given language and fallback to the configured default comment style
+   * when a language isn't in the map.
+   *
+   * @param languageId
+   * @returns CommentStyle
+   */
+  public getCommentStyle(languageId: string): CommentStyle {
+    return (
+      this._config.commentStyles[languageId] ||
+      LanguageRules.COMMENT_STYLES[languageId] || {
+        start: this._config.defaultCommentStyle,
+        end: "",
+      }
+    );
+  }
+
+  /**
+   * Converts the "comments" of a VSCode language configuration into a comment style, preferring
+   * line comments over block comments.
+   *
+   * @param comments e.g. { lineComment: "//", blockComment: ["/*", "*\/"] }
+   * @returns CommentStyle|null null if the language has no usable comments
+   */
+  public static commentStyleFromConfiguration(
+    comments: unknown,
+  ): CommentStyle | null {
+    if (typeof comments !== "object" || comments === null) {
+      return null;
+    }
+
+    // Line comments are either a string or, since VSCode 1.93, { comment, noIndent }
+    const { lineComment, blockComment } = comments as Record<string, unknown>;
+    const line =
+      typeof lineComment === "object" && lineComment !== null
+        ? (lineComment as Record<string, unknown>).comment
+        : lineComment;
+    if (typeof line === "string" && line.trim()) {
+      return { start: line.trim(), end: "" };
+    }
+
+    if (
+      Array.isArray(blockComment) &&
+      typeof blockComment[0] === "string" &&
+      typeof blockComment[1] === "string" &&
+      blockComment[0].trim()
+    ) {
+      return { start: blockComment[0].trim(), end: blockComment[1].trim() };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get language ID from file extension, if included files are detected by their extension
+   * (see the detectFromExtension setting)
+   *
+   * @param filePath
+   * @returns string|null
+   */
+  public getLanguageFromExtension(filePath: string): string | null {
+    if (!this._config.detectFromExtension) {
+      return null;
+    }
+
+    return this.getFileLanguage(filePath);
+  }
+
+  /**
+   * Gets the language of a file from its extension or name, using the built-in table and the
+   * configured file languages. Unlike getLanguageFromExtension it always applies, e.g. to parse
+   * files that are not open.
+   *
+   * @param filePath
+   * @returns string|null
+   */
+  public getFileLanguage(filePath: string): string | null {
+    // Files without extension (Dockerfile, Makefile) are looked up by name
+    const fileName = filePath.split(/[\\/]/).pop()!.toLowerCase();
+    const dotIndex = fileName.lastIndexOf(".");
+    return (
+      LanguageRules.languageFromExtension(filePath) ||
+      (dotIndex > 0 &&
+        this._config.fileLanguages[fileName.substring(dotIndex)]) ||
+      this._config.fileLanguages[fileName] ||
+      null
+    );
+  }
+
+  /**
+   * Determines the comment style of a file, based on its extension and falling back
+   * to the given language.
+   *
+   * @param filePath
+   * @param fallbackLanguageId
+   * @returns CommentStyle
+   */
+  public getCommentStyleForFile(
+    filePath: string,
+    fallbackLanguageId: string,
+  ): CommentStyle {
+    return this.getCommentStyle(
+      this.getLanguageFromExtension(filePath) || fallbackLanguageId,
+    );
+  }
+
+  /**
+   * Checks if a line is within a language override section based on config
+   *
+   * @param getLine Accessor for the lines of the document
+   * @param lineNumber
+   * @param languageId The language of the document
+   * @returns {commentStyle: string, commentEnd?: string} | null
+   */
+  public getSectionOverride(
+    getLine: (lineNumber: number) => string,
+    lineNumber: number,
+    languageId: string,
+  ): { commentStyle: string; commentEnd?: string } | null {
+    // Combine built-in and user-defined overrides, only for this file type
+    const relevantOverrides = [
+      ...LanguageRules.BUILT_IN_SECTION_OVERRIDES,
+      ...this._config.languageOverrides,
+    ].filter((o) => o.fileType === languageId);
+
+    if (relevantOverrides.length === 0) {
+      return null;
+    }
+
+    // Look backwards from the current line to find any section start
+    for (let i = lineNumber; i >= 0; i--) {
+      const line = getLine(i);
+
+      for (const override of relevantOverrides) {
+        const sectionStartRegex = new RegExp(override.pattern);
+        if (sectionStartRegex.test(line)) {
+          // Check if we're still in this section
+          const continueUntilRegex = new RegExp(override.continueUntil);
+          for (let j = i + 1; j <= lineNumber; j++) {
+            if (continueUntilRegex.test(getLine(j))) {
+              // We've exited the section
+              return null;
+            }
+          }
+
+          // We're in the section
+          return {
+            commentStyle: override.commentStyle,
+            commentEnd: override.commentEnd,
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the comment style that applies in a specific context: 'with' override, section
+   * override, included file extension and finally the document's language.
+   *
+   * @param context Object containing context information
+   * @returns CommentStyle
+   */
+  public getContextAwareCommentStyle(context: RuleContext): CommentStyle {
+    const commentStyleOverride = DirectiveSyntax.getCommentStyleOverride(
+      context.line,
+    );
+    if (commentStyleOverride) {
+      return { start: commentStyleOverride, end: "" };
+    }
+
+    const sectionOverride = this.getSectionOverride(
+      context.getLine,
+      context.lineNumber,
+      context.languageId,
+    );
+    if (sectionOverride) {
+      return {
+        start: sectionOverride.commentStyle,
+        end: sectionOverride.commentEnd || "",
+      };
+    }
+
+    if (context.includedFilePath) {
+      return this.getCommentStyleForFile(
+        context.includedFilePath,
+        context.languageId,
+      );
+    }
+
+    return this.getCommentStyle(context.languageId);
+  }
+
+  /**
+   * Gets the appropriate LanguageSettings for a specific context,
+   * taking into account file extension detection, comment style overrides,
+   * and section-based overrides.
+   *
+   * @param context Object containing context information
+   * @returns LanguageSettings
+   */
+  public getContextAwareSettings(context: RuleContext): LanguageSettings {
+    // First check for explicit 'with' comment style override in the directive
+    const commentStyleOverride = DirectiveSyntax.getCommentStyleOverride(
+      context.line,
+    );
+    if (commentStyleOverride) {
+      return this.createDefaultSettings({
+        start: commentStyleOverride,
+        end: "",
+      });
+    }
+
+    // Then check for section override based on configuration
+    const sectionOverride = this.getSectionOverride(
+      context.getLine,
+      context.lineNumber,
+      context.languageId,
+    );
+    if (sectionOverride) {
+      return this.createDefaultSettings({
+        start: sectionOverride.commentStyle,
+        end: sectionOverride.commentEnd || "",
+      });
+    }
+
+    // Then try to detect language from included file extension
+    if (context.includedFilePath) {
+      const detectedLanguage = this.getLanguageFromExtension(
+        context.includedFilePath,
+      );
+      if (detectedLanguage) {
+        return this.getLanguageSettings(detectedLanguage);
+      }
+    }
+
+    // Fall back to document's language
+    return this.getLanguageSettings(context.languageId);
+  }
+
+  /**
+   * Retrieves settings for a specific language ID:
+   *
+   * 1. Combines defaults with user-configured overrides
+   * 2. Returns complete language settings with pattern and markers
+   *
+   * @param languageId
+   * @returns LanguageSettings
+   */
+  public getLanguageSettings(languageId: string): LanguageSettings {
+    // Create default settings based on the comment style
+    const defaultSettings = this.createDefaultSettings(
+      this.getCommentStyle(languageId),
+    );
+
+    // Merge with any language-specific overrides
+    return {
+      ...defaultSettings,
+      ...(this._config.languageSettings[languageId] || {}),
+    };
+  }
+
+  /**
+   * Generates default settings based on comment style, using the configured marker texts.
+   *
+   * @param commentStyle
+   * @returns LanguageSettings
+   */
+  public createDefaultSettings(commentStyle: CommentStyle): LanguageSettings {
+    const startComment = LanguageRules.escapeRegExp(commentStyle.start);
+    return {
+      includeDirectivePattern: `${startComment}\\s*virtualInclude\\s+["'](.+?)["']`,
+      startMarkerTemplate: LanguageRules.fillMarker(
+        this._config.startMarker || DEFAULT_INCLUDE_CONFIG.startMarker,
+        commentStyle,
+      ),
+      endMarkerTemplate: LanguageRules.fillMarker(
+        this._config.endMarker || DEFAULT_INCLUDE_CONFIG.endMarker,
+        commentStyle,
+      ),
+    };
+  }
+
+  /**
+   * Fills the comment placeholders of a marker text. Texts without a {{comment}} placeholder are
+   * wrapped in a comment, so the marker stays a comment in every language.
+   *
+   * @param marker The marker text, e.g. "{{comment}} BEGIN INCLUDE {{commentEnd}}"
+   * @param commentStyle
+   * @returns string
+   */
+  public static fillMarker(marker: string, commentStyle: CommentStyle): string {
+    if (!marker.includes("{{comment}}")) {
+      marker = `{{comment}} ${marker} {{commentEnd}}`;
+    }
+
+    return marker
+      .split("{{commentEnd}}")
+      .join(commentStyle.end)
+      .split("{{comment}}")
+      .join(commentStyle.start);
+  }
+
+  /**
+   * Get language ID from file extension, regardless of the detectFromExtension setting.
+   *
+   * @param filePath
+   * @returns string|null
+   */
+  public static languageFromExtension(filePath: string): string | null {
+    const lastDotIndex = filePath.lastIndexOf(".");
+    if (lastDotIndex === -1) {
+      return null;
+    }
+
+    const extension = filePath.substring(lastDotIndex).toLowerCase();
+    return this.EXTENSION_TO_LANGUAGE[extension] || null;
+  }
+
+  /**
+   * Escapes special characters for use in regex patterns.
+   *
+   * @param string
+   * @returns string
+   */
+  public static escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+/**
+ * This interface defines the context of a line for which settings are determined.
+ */
+export interface RuleContext {
+  getLine: (lineNumber: number) => string;
+  languageId: string;
+  lineNumber: number;
+  line: string;
+  includedFilePath?: string;
+}
@@ -0,0 +1,339 @@
+import type {
+  IncludeDirective,
+  IncludeEdit,
+  IncludeEngine,
+} from "./include-engine";
+import { DirectiveSyntax } from "./directive-syntax";
+
+/**
+ * The MarkerChecker class finds start and end markers that don't form a proper block below an
+ * include directive, e.g. after a merge conflict or an edit outside VSCode, and suggests a
+ * targeted fix for each of them instead of guessing where a block ends.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * The checker pairs the markers of a document like brackets: every end marker closes the last
+ * start marker that is still open, so blocks can contain other blocks. It then reports:
+ *
+ * - An end marker without an open start marker (orphanedEndMarker)
+ * - A start marker without an end marker and without a directive above it (orphanedStartMarker)
+ * - A block with both markers but without a directive above it (orphanedBlock)
+ * - A directive whose start marker has no end marker (unterminatedBlock); the block is left
+ *   alone by IncludeEngine.process until it is repaired
+ * - A directive with its block inside the block of another include (nestedInclude), which is
+ *   never updated and is lost when the enclosing block is updated
+ *
+ * Blocks below neutralized directives (virtualInclude-nested) inside another block are fine:
+ * they were included together with a source file that was itself processed. A start marker
+ * without end marker doesn't enclose the blocks below it, so the complete blocks that follow an
+ * unterminated block are not reported as nested.
+ *
+ * Every fix is a list of line-based edits, just like the edits of IncludeEngine.process, so
+ * callers apply them the same way.
+ */
+export class MarkerChecker {
+  constructor(private _engine: IncludeEngine) {}
+
+  /**
+   * Finds the marker problems of a document:
+   *
+   * 1. Pairs the start and end markers into blocks
+   * 2. Looks up the directive above each block
+   * 3. Reports the markers and blocks that don't belong to a directive, together with their fixes
+   *
+   * @param text The text of the document
+   * @param documentPath The path of the document, used to resolve relative includes
+   * @param languageId The language of the document
+   * @returns MarkerProblem[] Sorted by line
+   */
+  public check(
+    text: string,
+    documentPath: string,
+    languageId: string,
+  ): MarkerProblem[] {
+    const lines = text.split("\n");
+    const documentSettings = this._engine.rules.getLanguageSettings(languageId);
+    const directives = this._engine.findDirectives(
+      text,
+      documentPath,
+      languageId,
+    );
+    const directiveAt = new Map(directives.map((d) => [d.line, d]));
+
+    // Directives may use the markers of another language (see the 'with' syntax)
+    const startTemplates = new Set([
+      documentSettings.startMarkerTemplate,
+      ...directives.map((d) => d.settings.startMarkerTemplate),
+    ]);
+    const endTemplates = new Set([
+      documentSettings.endMarkerTemplate,
+      ...directives.map((d) => d.settings.endMarkerTemplate),
+    ]);
+    const matches = (line: string, templates: Set<string>) =>
+      [...templates].some((template) =>
+        DirectiveSyntax.isMarker(line, template),
+      );
+
+    const problems: MarkerProblem[] = [];
+    const blocks: MarkerBlock[] = [];
+    const open: MarkerBlock[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      if (matches(lines[i], startTemplates)) {
+        const block: MarkerBlock = {
+          startLine: i,
+          endLine: -1,
+          directive: directiveAt.get(i - 1) ?? null,
+          parent: open[open.length - 1] ?? null,
+        };
+        blocks.push(block);
+        open.push(block);
+      } else if (matches(lines[i], endTemplates)) {
+        const block = open.pop();
+        if (block) {
+          block.endLine = i;
+        } else {
+          problems.push({
+            kind: "orphanedEndMarker",
+            severity: "warning",
+            message: "End marker without a start marker",
+            line: i,
+            fixes: [
+              { title: "Remove end marker", edits: [this._remove(i, i)] },
+            ],
+          });
+        }
+      }
+    }
+
+    for (const block of blocks) {
+      const problem = this._checkBlock(block, lines, documentPath, languageId);
+      if (problem) {
+        problems.push(problem);
+      }
+    }
+
+    return problems.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Checks a single block and creates the problem and fixes for it.
+   *
+   * @param block
+   * @param lines The lines of the document
+   * @param documentPath
+   * @param languageId
+   * @returns MarkerProblem|null null if the block is fine
+   */
+  private _checkBlock(
+    block: MarkerBlock,
+    lines: string[],
+    documentPath: string,
+    languageId: string,
+  ): MarkerProblem | null {
+    const { startLine, endLine, directive, parent } = block;
+
+    if (!directive) {
+      if (parent && lines[startLine - 1]?.includes("virtualInclude-nested")) {
+        return null;
+      }
+
+      if (endLine === -1) {
+        return {
+          kind: "orphanedStartMarker",
+          severity: "warning",
+          message: "Start marker without an include directive or end marker",
+          line: startLine,
+          fixes: [
+            {
+              title: "Remove start marker",
+              edits: [this._remove(startLine, startLine)],
+            },
+          ],
+        };
+      }
+
+      return {
+        kind: "orphanedBlock",
+        severity: "warning",
+        message: "Included block without an include directive above it",
+        line: startLine,
+        endLine,
+        fixes: [
+          {
+            title: "Remove markers and keep the content",
+            edits: [
+              this._remove(startLine, startLine),
+              this._remove(endLine, endLine),
+            ],
+          },
+          {
+            title: "Remove block",
+            edits: [this._remove(startLine, endLine)],
+          },
+        ],
+      };
+    }
+
+    if (endLine === -1) {
+      const fixes: MarkerFix[] = [];
+      const contentEnd = this._findContentEnd(
+        directive,
+        lines,
+        documentPath,
+        languageId,
+      );
+      if (contentEnd !== -1) {
+        fixes.push({
+          title: "Insert end marker after the included content",
+          edits: [
+            {
+              startLine: contentEnd,
+              endLine: contentEnd,
+              lines: [
+                directive.indentation + directive.settings.endMarkerTemplate,
+              ],
+            },
+          ],
+        });
+      }
+      fixes.push({
+        title: "Remove start marker to expand the include again",
+        edits: [this._remove(startLine, startLine)],
+      });
+
+      return {
+        kind: "unterminatedBlock",
+        severity: "error",
+        message: `End marker missing for the include of ${directive.includePath}`,
+        line: directive.line,
+        fixes,
+      };
+    }
+
+    // Skip enclosing blocks without end marker, they are reported as unterminated themselves
+    let enclosing = parent;
+    while (enclosing && enclosing.endLine === -1) {
+      enclosing = enclosing.parent;
+    }
+
+    if (enclosing) {
+      const fixes: MarkerFix[] = [
+        {
+          title: "Move include below the enclosing block",
+          edits: [
+            this._remove(directive.line, endLine),
+            {
+              startLine: enclosing.endLine + 1,
+              endLine: enclosing.endLine + 1,
+              lines: lines.slice(directive.line, endLine + 1),
+            },
+          ],
+        },
+        {
+          title: "Remove include directive and its block",
+          edits: [this._remove(directive.line, endLine)],
+        },
+      ];
+
+      return {
+        kind: "nestedInclude",
+        severity: "error",
+        message: `Include of ${directive.includePath} is inside the block of another include and is never updated`,
+        line: directive.line,
+        fixes,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the line after the included content of a block without end marker, if the lines below
+   * the start marker still match the content of the source.
+   *
+   * @param directive
+   * @param lines The lines of the document
+   * @param documentPath
+   * @param languageId
+   * @returns number The line to insert the end marker at, or -1 if the content doesn't match
+   */
+  private _findContentEnd(
+    directive: IncludeDirective,
+    lines: string[],
+    documentPath: string,
+    languageId: string,
+  ): number {
+    const { content } = this._engine.resolve(
+      directive,
+      documentPath,
+      languageId,
+    );
+    if (content === null) {
+      return -1;
+    }
+
+    const contentLines = this._engine.renderContent(
+      content,
+      directive.indentation,
+      languageId,
+    );
+    const contentStart = directive.line + 2;
+    const matches = contentLines.every(
+      (line, index) => lines[contentStart + index] === line,
+    );
+    return matches ? contentStart + contentLines.length : -1;
+  }
+
+  /**
+   * Creates an edit that removes the lines from startLine to endLine (inclusive).
+   *
+   * @param startLine
+   * @param endLine
+   * @returns IncludeEdit
+   */
+  private _remove(startLine: number, endLine: number): IncludeEdit {
+    return { startLine, endLine: endLine + 1, lines: [] };
+  }
+}
+
+/**
+ * A start marker and the end marker that closes it (-1 if there is none), with the directive
+ * above the start marker and the block that contains it.
+ */
+interface MarkerBlock {
+  startLine: number;
+  endLine: number;
+  directive: IncludeDirective | null;
+  parent: MarkerBlock | null;
+}
+
+export type MarkerProblemKind =
+  | "orphanedStartMarker"
+  | "orphanedEndMarker"
+  | "orphanedBlock"
+  | "unterminatedBlock"
+  | "nestedInclude";
+
+/**
+ * This interface defines a problem with the markers of a document. The line is the line of the
+ * directive for problems of an include, and of the marker otherwise; orphaned blocks also have
+ * the line of their end marker.
+ */
+export interface MarkerProblem {
+  kind: MarkerProblemKind;
+  severity: "error" | "warning";
+  message: string;
+  line: number;
+  endLine?: number;
+  fixes: MarkerFix[];
+}
+
+/**
+ * This interface defines a fix for a marker problem: line-based edits of the original text, as
+ * applied by IncludeEngine.applyEdits.
+ */
+export interface MarkerFix {
+  title: string;
+  edits: IncludeEdit[];
+}
@@ -0,0 +1,161 @@
+import type { IncludeEngine } from "./include-engine";
+import { DirectiveSyntax } from "./directive-syntax";
+import { PathResolver } from "./path-resolver";
+
+/**
+ * The NestedIncludeExpander class expands include directives found inside included content,
+ * so that a fragment which itself includes another fragment contributes that fragment's content
+ * instead of a dead comment. Expansion is opt-in through the "expandNestedIncludes" setting;
+ * without it nested directives are only neutralized.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * For each line of the included content, the expander:
+ *
+ * - Matches include directives using the settings of the source file's language
+ * - Skips an already expanded block (start marker to end marker) below the nested directive,
+ *   since the source file may itself have been processed by the extension
+ * - Neutralizes the nested directive (virtualInclude -> virtualInclude-nested) so that it is
+ *   never processed again in the including document
+ * - Reads the nested file through the engine's host and expands it recursively below the
+ *   neutralized directive, applying the directive's indentation
+ *
+ * An include stack of resolved paths (starting with the including document) is passed down the
+ * recursion. A directive whose target is already on the stack forms a cycle (A -> B -> A) and is
+ * not expanded; the full cycle path is returned so the caller can report it. The recursion also
+ * stops at the configured maximum depth.
+ */
+export class NestedIncludeExpander {
+  constructor(private _engine: IncludeEngine) {}
+
+  /**
+   * Expands nested includes in the content of an included file.
+   *
+   * @param content The (selected) content of the included file
+   * @param sourcePath The resolved path of the included file
+   * @param includeStack The resolved paths of the including document and all files being expanded
+   * @param fallbackLanguageId Language to use when the source language can't be detected
+   * @returns NestedExpansionResult
+   */
+  public expand(
+    content: string,
+    sourcePath: string,
+    includeStack: string[],
+    fallbackLanguageId: string,
+  ): NestedExpansionResult {
+    const result: NestedExpansionResult = {
+      content,
+      sources: [],
+      cycle: null,
+      depthExceeded: false,
+    };
+
+    const rules = this._engine.rules;
+    const languageSettings = rules.getLanguageSettings(
+      rules.getLanguageFromExtension(sourcePath) || fallbackLanguageId,
+    );
+    const includeRegex = new RegExp(languageSettings.includeDirectivePattern);
+    const { startMarkerTemplate, endMarkerTemplate } = languageSettings;
+    const maxDepth = rules.config.maxIncludeDepth;
+
+    const lines = content.split("\n");
+    const expandedLines: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const match = line.match(includeRegex);
+
+      if (!match) {
+        expandedLines.push(line);
+        continue;
+      }
+
+      // Skip a block that was already expanded in the source file itself
+      if (
+        i + 1 < lines.length &&
+        DirectiveSyntax.isMarker(lines[i + 1], startMarkerTemplate)
+      ) {
+        const endLine = lines.findIndex(
+          (l, index) =>
+            index > i + 1 && DirectiveSyntax.isMarker(l, endMarkerTemplate),
+        );
+        if (endLine !== -1) {
+          i = endLine;
+        }
+      }
+
+      expandedLines.push(DirectiveSyntax.neutralizeDirective(line));
+
+      const overrideMatch = line.match(DirectiveSyntax.COMMENT_OVERRIDE_REGEX);
+      const includePath = overrideMatch ? overrideMatch[1] : match[1];
+      const resolvedPath = this._engine.resolvePath(sourcePath, includePath);
+
+      if (includeStack.some((p) => PathResolver.isSamePath(p, resolvedPath))) {
+        result.cycle = result.cycle ?? [...includeStack, resolvedPath];
+        continue;
+      }
+
+      // The stack starts with the including document, so its length minus one is the nesting level
+      if (includeStack.length - 1 > maxDepth) {
+        result.depthExceeded = true;
+        continue;
+      }
+
+      // Symbol selectors need an asynchronous symbol provider and are not supported here
+      if (
+        DirectiveSyntax.getSymbolPath(line) ||
+        !this._engine.host.exists(resolvedPath)
+      ) {
+        continue;
+      }
+
+      const nestedContent = this._engine.select(
+        this._engine.host.readFile(resolvedPath),
+        {
+          includePath,
+          region: DirectiveSyntax.splitRegion(includePath).region,
+          lineRange: DirectiveSyntax.getLineRange(line),
+          symbolPath: null,
+        },
+        resolvedPath,
+        fallbackLanguageId,
+      ).content;
+      if (nestedContent === null) {
+        continue;
+      }
+
+      const nested = this.expand(
+        nestedContent,
+        resolvedPath,
+        [...includeStack, resolvedPath],
+        fallbackLanguageId,
+      );
+
+      result.sources.push(resolvedPath, ...nested.sources);
+      result.cycle = result.cycle ?? nested.cycle;
+      result.depthExceeded = result.depthExceeded || nested.depthExceeded;
+
+      // Apply the indentation of the nested directive to the nested content
+      const indentation = line.match(/^(\s*)/)?.[1] || "";
+      expandedLines.push(
+        ...nested.content
+          .split("\n")
+          .map((l) => (l.length > 0 ? indentation + l : l)),
+      );
+    }
+
+    result.content = expandedLines.join("\n");
+    return result;
+  }
+}
+
+/**
+ * This interface defines the result of expanding nested includes: the expanded content, every
+ * nested source file that was read, and the problems that stopped the expansion.
+ */
+export interface NestedExpansionResult {
+  content: string;
+  sources: string[];
+  cycle: string[] | null;
+  depthExceeded: boolean;
+}
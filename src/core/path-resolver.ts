@@ -0,0 +1,375 @@
+import * as path from "path";
+import type { IncludeConfig } from "./config";
+import { DirectiveSyntax } from "./directive-syntax";
+import { GlobInclude } from "./glob-include";
+
+/**
+ * The PathResolver class turns the path written in an include directive into the path of the
+ * included file. Relative paths are resolved against the directory of the including document,
+ * and region selectors (file.py#region) are stripped so the source file itself is resolved.
+ * Bare paths that don't exist next to the document can be looked up in search paths.
+ *
+ * Paths can also start from a root instead of the document, so they survive moving the document:
+ *
+ * - /@/shared/header.py or ${workspaceFolder}/shared/header.py: the workspace folder
+ * - ${workspaceFolder:infra}/main.tf: a workspace folder by name, in multi-root workspaces
+ * - @shared/header.py: a path alias (pathAliases setting), e.g. "@shared" -> "libs/shared";
+ *   aliases are a single path segment and relative targets start from the workspace folder
+ */
+export class PathResolver {
+  /**
+   * Resolves an include path relative to the document that contains it.
+   *
+   * @param documentPath The path of the including document (or the including source file)
+   * @param includePath The include path as written in the directive
+   * @param roots The workspace folders and aliases include paths can start from
+   * @returns string
+   */
+  public static resolveIncludePath(
+    documentPath: string,
+    includePath: string,
+    roots?: PathRoots,
+  ): string {
+    includePath = DirectiveSyntax.splitRegion(includePath).filePath;
+
+    const rootedPath = roots ? this.resolveRoot(includePath, roots) : null;
+    if (rootedPath) {
+      return rootedPath;
+    }
+
+    if (path.isAbsolute(includePath)) {
+      return path.normalize(includePath);
+    }
+
+    return path.resolve(path.dirname(documentPath), includePath);
+  }
+
+  /**
+   * Gets the directories a bare include path (e.g. 'header.py' or 'shared/header.py') is looked up
+   * in, like the -I option of a C preprocessor. Absolute paths, paths starting with "./", "../",
+   * a workspace folder or an alias, and glob patterns always refer to a single location.
+   *
+   * @param includePath The include path as written in the directive
+   * @param searchPaths The search paths in order: absolute, starting from a root, or relative to
+   *   the workspace folder
+   * @param roots The workspace folders and aliases search paths can start from
+   * @returns string[] The absolute directories, empty if the path is not bare
+   */
+  public static getSearchDirectories(
+    includePath: string,
+    searchPaths: string[],
+    roots: PathRoots,
+  ): string[] {
+    const { filePath } = DirectiveSyntax.splitRegion(includePath);
+    if (
+      path.isAbsolute(filePath) ||
+      /^\.\.?[\\/]/.test(filePath) ||
+      GlobInclude.isGlobPattern(filePath) ||
+      this.resolveRoot(filePath, roots)
+    ) {
+      return [];
+    }
+
+    return searchPaths
+      .map(
+        (searchPath) =>
+          this.resolveRoot(searchPath, roots) ??
+          (path.isAbsolute(searchPath)
+            ? path.normalize(searchPath)
+            : roots.workspaceFolder
+              ? path.resolve(roots.workspaceFolder, searchPath)
+              : null),
+      )
+      .filter((directory): directory is string => directory !== null);
+  }
+
+  /**
+   * Looks up a bare include path in search paths (see getSearchDirectories).
+   *
+   * @param includePath The include path as written in the directive
+   * @param searchPaths The search paths in order
+   * @param exists Checks if a file exists
+   * @param roots The workspace folders and aliases search paths can start from
+   * @returns {resolvedPath: string, searchPath: string}|null The resolved path in the first
+   *   search directory that has the file, and that directory
+   */
+  public static findInSearchPaths(
+    includePath: string,
+    searchPaths: string[],
+    exists: (filePath: string) => boolean,
+    roots: PathRoots,
+  ): { resolvedPath: string; searchPath: string } | null {
+    const { filePath } = DirectiveSyntax.splitRegion(includePath);
+
+    for (const searchPath of this.getSearchDirectories(
+      includePath,
+      searchPaths,
+      roots,
+    )) {
+      const resolvedPath = path.resolve(searchPath, filePath);
+      if (exists(resolvedPath)) {
+        return { resolvedPath, searchPath };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolves a path that starts from a workspace folder or an alias.
+   *
+   * @param filePath The path without region selector, e.g. "/@/shared/header.py"
+   * @param roots The workspace folders and aliases
+   * @returns string|null null if the path doesn't start from a known root
+   */
+  public static resolveRoot(filePath: string, roots: PathRoots): string | null {
+    const root = this._splitRoot(filePath, roots);
+    return root ? path.join(root.rootPath, root.rest) : null;
+  }
+
+  /**
+   * Maps a path to its location after files or folders were renamed. Paths inside a renamed
+   * folder move along with it; glob patterns are mapped like paths.
+   *
+   * @param filePath
+   * @param renames The old and new paths of the renamed files and folders
+   * @returns string The new path, or the path itself if it wasn't renamed
+   */
+  public static applyRenames(filePath: string, renames: PathRename[]): string {
+    for (const { oldPath, newPath } of renames) {
+      if (this.isSameOrInside(filePath, oldPath)) {
+        return path.join(newPath, path.relative(oldPath, filePath));
+      }
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Checks if a path is the same as another path or lies inside it.
+   *
+   * @param filePath
+   * @param folderPath
+   * @returns boolean
+   */
+  public static isSameOrInside(filePath: string, folderPath: string): boolean {
+    if (this.isSamePath(filePath, folderPath)) {
+      return true;
+    }
+
+    const relative = path.relative(folderPath, filePath);
+    return (
+      relative !== "" &&
+      !relative.startsWith("..") &&
+      !path.isAbsolute(relative)
+    );
+  }
+
+  /**
+   * Writes the include path of a source file as seen from a document, in the style of an existing
+   * include path: paths starting from a root keep that root while the source is inside it,
+   * absolute paths stay absolute, a leading "./" and a region selector are kept, and relative paths
+   * use forward slashes.
+   *
+   * @param documentPath The path of the including document
+   * @param sourcePath The resolved path of the source file (or glob pattern)
+   * @param originalIncludePath The include path to take the style from
+   * @param roots The workspace folders and aliases include paths can start from
+   * @returns string
+   */
+  public static toIncludePath(
+    documentPath: string,
+    sourcePath: string,
+    originalIncludePath: string,
+    roots?: PathRoots,
+  ): string {
+    const { filePath, region } =
+      DirectiveSyntax.splitRegion(originalIncludePath);
+    const root = roots ? this._splitRoot(filePath, roots) : null;
+
+    let includePath = sourcePath;
+    if (root && this.isSameOrInside(sourcePath, root.rootPath)) {
+      const relativePath = path
+        .relative(root.rootPath, sourcePath)
+        .split(path.sep)
+        .join("/");
+      includePath = relativePath
+        ? `${root.prefix}/${relativePath}`
+        : root.prefix;
+    } else if (!path.isAbsolute(filePath)) {
+      includePath = path
+        .relative(path.dirname(documentPath), sourcePath)
+        .split(path.sep)
+        .join("/");
+      if (filePath.startsWith("./") && !includePath.startsWith(".")) {
+        includePath = `./${includePath}`;
+      }
+    }
+
+    return region ? `${includePath}#${region}` : includePath;
+  }
+
+  /**
+   * Finds the path that most likely was meant by a path that doesn't exist, e.g. because of a
+   * typo or a moved file. Candidates are compared by file name first and by full path second.
+   *
+   * @param missingPath The resolved path that doesn't exist
+   * @param candidates The paths of existing files
+   * @returns string|null null when no file name is close enough
+   */
+  public static findClosestPath(
+    missingPath: string,
+    candidates: string[],
+  ): string | null {
+    const name = path.basename(missingPath).toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+
+    let closest: string | null = null;
+    let closestScore = [Infinity, Infinity];
+    for (const candidate of candidates) {
+      const nameDistance = this._editDistance(
+        name,
+        path.basename(candidate).toLowerCase(),
+      );
+      if (nameDistance > maxDistance || nameDistance > closestScore[0]) {
+        continue;
+      }
+
+      const score = [nameDistance, this._editDistance(missingPath, candidate)];
+      if (score[0] < closestScore[0] || score[1] < closestScore[1]) {
+        closest = candidate;
+        closestScore = score;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Checks if two paths point to the same file, ignoring case on Windows.
+   *
+   * @param a
+   * @param b
+   * @returns boolean
+   */
+  public static isSamePath(a: string, b: string): boolean {
+    const normalizedA = path.normalize(a);
+    const normalizedB = path.normalize(b);
+
+    return process.platform === "win32"
+      ? normalizedA.toLowerCase() === normalizedB.toLowerCase()
+      : normalizedA === normalizedB;
+  }
+
+  /**
+   * Splits the root off a path that starts from a workspace folder or an alias.
+   *
+   * @param filePath The include path without region selector
+   * @param roots
+   * @returns {prefix: string, rootPath: string, rest: string}|null null if the path doesn't start
+   *   from a known root
+   */
+  private static _splitRoot(
+    filePath: string,
+    roots: PathRoots,
+  ): { prefix: string; rootPath: string; rest: string } | null {
+    let prefix = filePath;
+    let rest = "";
+    if (filePath.startsWith("/@/")) {
+      prefix = "/@";
+      rest = filePath.substring(3);
+    } else {
+      const separatorIndex = filePath.search(/[\\/]/);
+      if (separatorIndex !== -1) {
+        prefix = filePath.substring(0, separatorIndex);
+        rest = filePath.substring(separatorIndex + 1);
+      }
+    }
+
+    const rootPath = this._getRootPath(prefix, roots);
+    return rootPath ? { prefix, rootPath, rest } : null;
+  }
+
+  /**
+   * Gets the directory a root prefix (/@, ${workspaceFolder}, ${workspaceFolder:name} or an alias)
+   * stands for.
+   *
+   * @param prefix
+   * @param roots
+   * @returns string|null null for unknown prefixes and when there is no workspace folder
+   */
+  private static _getRootPath(prefix: string, roots: PathRoots): string | null {
+    if (prefix === "/@" || prefix === "${workspaceFolder}") {
+      return roots.workspaceFolder || null;
+    }
+
+    const folderMatch = prefix.match(/^\$\{workspaceFolder:(.+)\}$/);
+    if (folderMatch) {
+      return roots.workspaceFolders[folderMatch[1]] ?? null;
+    }
+
+    const target = Object.prototype.hasOwnProperty.call(
+      roots.pathAliases,
+      prefix,
+    )
+      ? roots.pathAliases[prefix]
+      : null;
+    if (target === null) {
+      return null;
+    }
+
+    // Targets may start from a workspace folder, but not from another alias
+    const rootedTarget = this.resolveRoot(target, {
+      ...roots,
+      pathAliases: {},
+    });
+    if (rootedTarget) {
+      return rootedTarget;
+    }
+    if (path.isAbsolute(target)) {
+      return path.normalize(target);
+    }
+    return roots.workspaceFolder
+      ? path.resolve(roots.workspaceFolder, target)
+      : null;
+  }
+
+  /**
+   * Computes the Levenshtein distance between two strings.
+   *
+   * @param a
+   * @param b
+   * @returns number
+   */
+  private static _editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
+
+/**
+ * This type defines the roots include paths can start from, besides the including document.
+ */
+export type PathRoots = Pick<
+  IncludeConfig,
+  "workspaceFolder" | "workspaceFolders" | "pathAliases"
+>;
+
+/**
+ * This interface defines a renamed (or moved) file or folder.
+ */
+export interface PathRename {
+  oldPath: string;
+  newPath: string;
+}
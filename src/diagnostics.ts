@@ -1,7 +1,6 @@
 import * as vscode from "vscode";
-import * as fs from "fs";
-import * as path from "path";
-import { LanguageService } from "./language-service";
+import { Constants } from "./constants";
+import { DirectiveSyntax, IncludeEngine } from "./core";
 
 /**
  * The DiagnosticsManager class analyzes documents for problems with virtual includes and reports
@@ -13,8 +12,19 @@ import { LanguageService } from "./language-service";
  * The DiagnosticsManager is integrated into the document processing workflow:
  *
  * - Before processing includes, the manager scans the document for potential issues
- * - For each include directive, it checks if the referenced file exists
- * - If a file is missing or can't be accessed, it creates a diagnostic
+ * - For each include directive, it lets the IncludeEngine resolve the include and turns the
+ *   problems it reports into diagnostics
+ * - The engine checks if the referenced file exists (or, for glob includes, if any file matches the pattern)
+ * - If a file is missing or can't be accessed, it creates a diagnostic, which the
+ *   VirtualIncludeCodeActionProvider offers fixes for
+ * - If the directive selects a named region, it checks that the region exists in the referenced file
+ * - If the directive selects a line range, it checks that the range fits the referenced file
+ * - If nested includes are expanded, it reports include cycles and excessive nesting
+ * - It reports start and end markers without a matching marker or directive, blocks without a
+ *   directive and includes inside the block of another include, each with quick fixes
+ * - If start markers carry content hashes, it reports blocks that were edited by hand and
+ *   blocks whose source changed since they were expanded, with codes that the
+ *   VirtualIncludeCodeActionProvider offers different fixes for
  * - VSCode displays these diagnostics as red squiggly underlines in the editor
  * - When hovering over these underlines, users see the specific error message
  *
@@ -43,40 +53,108 @@ export class DiagnosticsManager {
    * @returns number of errors
    */
   public checkDocument(document: vscode.TextDocument): number {
-    const text = document.getText();
-    const lines = text.split("\n");
     const diagnostics: vscode.Diagnostic[] = [];
-    const languageSettings = LanguageService.getLanguageSettings(
+    const documentPath = document.uri.fsPath;
+    const engine = new IncludeEngine(Constants.getIncludeConfig(documentPath));
+
+    const result = engine.process(
+      document.getText(),
+      documentPath,
       document.languageId,
     );
 
-    // Create regex for include directive using language settings
-    const includeRegex = new RegExp(languageSettings.includeDirectivePattern);
+    // Process each include directive
+    for (const {
+      directive,
+      status,
+      resolution,
+      markerHashes,
+    } of result.includes) {
+      const range = new vscode.Range(
+        new vscode.Position(directive.line, directive.range.start),
+        new vscode.Position(directive.line, directive.range.end),
+      );
 
-    // Process each line to find include directives
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const match = line.match(includeRegex);
+      for (const problem of resolution?.problems ?? []) {
+        // Symbols need the document symbol provider, the DocumentProcessor reports them
+        if (
+          problem.kind === "missingSymbol" ||
+          problem.kind === "unsupportedSelector"
+        ) {
+          continue;
+        }
 
-      if (match) {
-        const filePath = match[1];
-        const resolvedPath = this.resolveIncludePath(document, filePath);
-        const range = this.getIncludeRange(document, i, match);
+        // Show the cycle relative to the workspace
+        const message = problem.cycle
+          ? `Include cycle detected: ${problem.cycle
+              .map((p) => vscode.workspace.asRelativePath(p))
+              .join(" → ")}`
+          : problem.message;
 
-        // Check if file exists
-        if (!fs.existsSync(resolvedPath)) {
-          // Create diagnostic for missing file
-          const diagnostic = new vscode.Diagnostic(
-            range,
-            `Cannot find included file: ${filePath}`,
-            vscode.DiagnosticSeverity.Error,
-          );
-          diagnostic.source = "Virtual Include";
-          diagnostics.push(diagnostic);
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          message,
+          problem.severity === "error"
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = "Virtual Include";
+        if (problem.kind === "missingFile") {
+          diagnostic.code = Constants.DIAGNOSTIC_MISSING_FILE;
         }
+        diagnostics.push(diagnostic);
+      }
+
+      if (status === "modified") {
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          `Included content of ${directive.includePath} was edited by hand and no longer matches its hash`,
+          vscode.DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = "Virtual Include";
+        diagnostic.code = Constants.DIAGNOSTIC_MODIFIED_BLOCK;
+        diagnostics.push(diagnostic);
+      } else if (
+        status === "stale" &&
+        markerHashes &&
+        typeof resolution?.content === "string" &&
+        markerHashes.source !== DirectiveSyntax.hashContent(resolution.content)
+      ) {
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          `${directive.includePath} changed since its content was included`,
+          vscode.DiagnosticSeverity.Information,
+        );
+        diagnostic.source = "Virtual Include";
+        diagnostic.code = Constants.DIAGNOSTIC_SOURCE_CHANGED;
+        diagnostics.push(diagnostic);
       }
     }
 
+    // Report markers that don't form a block below a directive
+    for (const problem of engine.checkMarkers(
+      document.getText(),
+      documentPath,
+      document.languageId,
+    )) {
+      const line = document.lineAt(problem.line);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          problem.line,
+          line.firstNonWhitespaceCharacterIndex,
+          problem.line,
+          line.range.end.character,
+        ),
+        problem.message,
+        problem.severity === "error"
+          ? vscode.DiagnosticSeverity.Error
+          : vscode.DiagnosticSeverity.Warning,
+      );
+      diagnostic.source = "Virtual Include";
+      diagnostic.code = Constants.DIAGNOSTIC_MARKER_PROBLEM;
+      diagnostics.push(diagnostic);
+    }
+
     // Update diagnostics for this document
     this._diagnosticCollection.set(document.uri, diagnostics);
 
@@ -93,48 +171,6 @@ export class DiagnosticsManager {
     this._diagnosticCollection.delete(document.uri);
   }
 
-  /**
-   * Determines the exact position of an include directive in the document.
-   *
-   * @param document
-   * @param line
-   * @param match
-   * @returns vscode.Range
-   */
-  private getIncludeRange(
-    document: vscode.TextDocument,
-    line: number,
-    match: RegExpMatchArray,
-  ): vscode.Range {
-    const lineText = document.lineAt(line).text;
-    const startIndex = lineText.indexOf(match[0]);
-    const endIndex = startIndex + match[0].length;
-
-    return new vscode.Range(
-      new vscode.Position(line, startIndex),
-      new vscode.Position(line, endIndex),
-    );
-  }
-
-  /**
-   * Resolves file paths relative to the document.
-   *
-   * @param document
-   * @param includePath
-   * @returns string
-   */
-  private resolveIncludePath(
-    document: vscode.TextDocument,
-    includePath: string,
-  ): string {
-    if (path.isAbsolute(includePath)) {
-      return includePath;
-    }
-
-    const documentDir = path.dirname(document.uri.fsPath);
-    return path.resolve(documentDir, includePath);
-  }
-
   /**
    * Clean up resources.
    */
@@ -2,7 +2,16 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import { VirtualIncludeManager } from "./virtual-include-manager";
-import { LanguageService, LanguageSettings } from "./language-service";
+import { Constants } from "./constants";
+import { SymbolResolver } from "./symbol-resolver";
+import {
+  DirectiveSyntax,
+  GlobInclude,
+  IncludeEdit,
+  IncludeEngine,
+  LineRange,
+  NODE_INCLUDE_HOST,
+} from "./core";
 
 /**
  * The document-processor module is the heart of the Virtual Include extension,
@@ -12,21 +21,21 @@ import { LanguageService, LanguageSettings } from "./language-service";
  *
  * HOW IT WORKS IN DETAIL
  *
- * When a document is opened, saved, or changed, the DocumentProcessor scans it for
- * virtual include directives. For each directive it finds:
+ * When a document is opened, saved, or changed, the DocumentProcessor hands its text to the
+ * headless IncludeEngine (see src/core), which scans it for virtual include directives. For
+ * each directive the engine:
  *
- * - It resolves the file path and reads the referenced file
- * - It checks if the include is already expanded in the document
- * - If expanded, it compares the current content with the source content, accounting for indentation
- * - If the content differs or the include is new, it updates the document
+ * - Resolves the file path and reads the referenced file
+ * - Checks if the include is already expanded in the document
+ * - If expanded, compares the current content with the source content, accounting for indentation
+ * - If the content differs or the include is new, returns an edit for the include block
  *
- * The update process:
+ * The DocumentProcessor wraps the engine with everything that needs VSCode:
  *
- * - Preserves the indentation from the include directive
- * - Adds start and end markers to indicate protected regions
- * - Replaces existing content or inserts new content as needed
- * - Uses WorkspaceEdit for reliable document modification
- * - Updates line offsets to account for content changes
+ * - Symbol selectors are resolved up front through the document symbol provider
+ * - Problems are reported through the UI handler
+ * - The engine's edits are applied in a single WorkspaceEdit, while edit protection is paused,
+ *   or staged for the refactor preview by the UpdateApproval when "confirmUpdates" is enabled
  *
  * The DocumentProcessor carefully tracks which source files are used by which documents,
  * enabling the extension to update all relevant documents when a source file changes.
@@ -40,11 +49,10 @@ export class DocumentProcessor {
   /**
    * The main method that scans a document for virtual includes:
    *
-   * 1. Identifies include directives using regular expressions
-   * 2. Resolves file paths and reads content
-   * 3. Compares existing includes with source files
-   * 4. Determines if updates are needed
-   * 5. Tracks relationships between source files and including documents
+   * 1. Resolves symbol selectors through the document symbol provider
+   * 2. Lets the IncludeEngine resolve and compare every include
+   * 3. Reports problems and tracks relationships between source files and including documents
+   * 4. Applies the engine's edits if any include is new or out of date
    *
    * @param editor
    * @returns Promise<void>
@@ -54,10 +62,6 @@ export class DocumentProcessor {
       const document = editor.document;
       const documentKey = document.uri.toString();
 
-      const languageSettings = LanguageService.getLanguageSettings(
-        document.languageId,
-      );
-
       // Clear existing watchers for this document
       if (this._manager.documentWatchers.has(documentKey)) {
         for (const watcher of this._manager.documentWatchers.get(
@@ -73,169 +77,99 @@ export class DocumentProcessor {
       this._manager.documentIncludes.set(documentKey, includeMap);
       const watchers: vscode.FileSystemWatcher[] = [];
 
-      const text = document.getText();
-      const lines = text.split("\n");
-      let needsEdit = false;
-
-      // First pass: identify all virtual includes and their current state
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        // Get language settings specific to this context
-        const contextAwareSettings = LanguageService.getContextAwareSettings({
-          document,
-          lineNumber: i,
-          line,
-        });
+      const engine = await this.createEngine(document);
+      const result = engine.process(
+        document.getText(),
+        document.uri.fsPath,
+        document.languageId,
+      );
 
-        // Try to match the include directive
-        const match = line.match(contextAwareSettings.includeDirectivePattern);
+      for (const { directive, status, resolution } of result.includes) {
+        const i = directive.line;
 
-        if (match) {
-          // Check first for the override pattern with 'with' syntax
-          const overrideMatch = line.match(
-            LanguageService.COMMENT_OVERRIDE_REGEX,
+        if (status === "selfInclude") {
+          console.warn(
+            `Preventing self-include in file: ${document.uri.fsPath}`,
           );
-          const filePath = overrideMatch ? overrideMatch[1] : match[1];
+          this._manager.uiHandler.showWarningMessage(
+            `Cannot include a file in itself: ${directive.includePath}`,
+          );
+          continue;
+        }
 
-          if (this._isSelfInclude(document, filePath)) {
-            // Log the issue
-            console.warn(
-              `Preventing self-include in file: ${document.uri.fsPath}`,
-            );
+        if (status === "missing" || !resolution) {
+          this._manager.uiHandler.showErrorMessage(
+            `File not found: ${directive.resolvedPath}`,
+          );
+          continue;
+        }
 
-            // Show a warning to the user
-            this._manager.uiHandler.showWarningMessage(
-              `Cannot include a file in itself: ${filePath}`,
-            );
+        // Track and watch the source, also for invalid selections so fixing the source recovers
+        this._trackSource(directive.resolvedPath, documentKey);
+        watchers.push(
+          this._manager.fileWatcher.createWatcher(directive.resolvedPath),
+        );
 
-            // Skip processing this include
-            continue;
+        // Files matching a glob are covered by the glob's watcher
+        if (directive.isGlob) {
+          for (const sourcePath of resolution.sources) {
+            this._trackSource(sourcePath, documentKey);
           }
+        }
 
-          const resolvedPath = this._resolveIncludePath(document, filePath);
-
-          try {
-            if (fs.existsSync(resolvedPath)) {
-              const content = fs.readFileSync(resolvedPath, "utf8");
-              includeMap.set(i, content);
-
-              // Track the relationship between source file and including document
-              if (!this._manager.sourceToDocuments.has(resolvedPath)) {
-                this._manager.sourceToDocuments.set(
-                  resolvedPath,
-                  new Set<string>(),
-                );
-              }
-              this._manager.sourceToDocuments
-                .get(resolvedPath)!
-                .add(documentKey);
-
-              // Check if already expanded
-              const nextLineIndex = i + 1;
-
-              // Get the language settings appropriate for this include
-              const contextAwareSettings =
-                LanguageService.getContextAwareSettings({
-                  document,
-                  lineNumber: i,
-                  line,
-                  includedFilePath: resolvedPath,
-                });
-
-              if (
-                nextLineIndex < lines.length &&
-                (lines[nextLineIndex].trim() ===
-                  languageSettings.startMarkerTemplate.trim() ||
-                  lines[nextLineIndex].trim() ===
-                    contextAwareSettings.startMarkerTemplate.trim())
-              ) {
-                // Find the end marker
-                let endLine = -1;
-
-                for (let j = nextLineIndex + 1; j < lines.length; j++) {
-                  if (
-                    lines[j].trim() ===
-                      languageSettings.endMarkerTemplate.trim() ||
-                    lines[j].trim() ===
-                      contextAwareSettings.endMarkerTemplate.trim()
-                  ) {
-                    endLine = j;
-                    break;
-                  }
-                }
-
-                if (endLine !== -1) {
-                  // Extract current content
-                  const currentContent = lines
-                    .slice(nextLineIndex + 1, endLine)
-                    .join("\n");
-
-                  // Get indentation of the include line
-                  const indentation = line.match(/^(\s*)/)?.[1] || "";
-
-                  // Apply indentation to the content for comparison
-                  const indentedContent = content
-                    .split("\n")
-                    .map((contentLine) =>
-                      contentLine.length > 0
-                        ? indentation + contentLine
-                        : contentLine,
-                    )
-                    .join("\n");
-
-                  // If content has changed, mark for update
-                  if (currentContent !== indentedContent) {
-                    console.log(
-                      `Content changed for include at line ${i}, will update`,
-                    );
-                    needsEdit = true;
-                  } else {
-                    console.log(
-                      `Content unchanged for include at line ${i}, no update needed`,
-                    );
-                  }
-                } else {
-                  // End marker missing, need to fix
-                  console.log(
-                    `End marker missing for include at line ${i}, will fix`,
-                  );
-                  needsEdit = true;
-                }
-              } else {
-                // Not expanded yet, mark for expansion
-                console.log(
-                  `Include at line ${i} not yet expanded, will expand`,
-                );
-                needsEdit = true;
-              }
+        // Nested sources affect this document too, so track and watch them
+        for (const nestedPath of new Set(resolution.nestedSources)) {
+          this._trackSource(nestedPath, documentKey);
+          watchers.push(this._manager.fileWatcher.createWatcher(nestedPath));
+        }
 
-              // Set up file watcher
-              const watcher =
-                this._manager.fileWatcher.createWatcher(resolvedPath);
-              watchers.push(watcher);
-            } else {
-              this._manager.uiHandler.showErrorMessage(
-                `File not found: ${resolvedPath}`,
-              );
+        if (status === "invalidSelection") {
+          // The DiagnosticsManager reports invalid selections, skip the include
+          for (const problem of resolution.problems) {
+            if (problem.kind === "missingSymbol") {
+              this._manager.uiHandler.showWarningMessage(problem.message);
             }
-          } catch (error) {
-            console.error(`Error processing include at line ${i}: ${error}`);
-            this._manager.uiHandler.showErrorMessage(
-              `Error processing include: ${error}`,
-            );
           }
+          console.log(
+            `Selection for include at line ${i} is outside ${directive.resolvedPath}, skipping`,
+          );
+          continue;
+        }
+
+        includeMap.set(i, resolution.content!);
+
+        if (status === "notExpanded") {
+          console.log(`Include at line ${i} not yet expanded, will expand`);
+        } else if (status === "unterminated") {
+          // The DiagnosticsManager reports the block and offers to repair it
+          console.log(`End marker missing for include at line ${i}, skipping`);
+        } else if (status === "stale") {
+          console.log(`Content changed for include at line ${i}, will update`);
+        } else if (status === "modified") {
+          // The DiagnosticsManager reports the block and offers to restore it
+          console.log(`Include at line ${i} was edited by hand, not updating`);
+        } else {
+          console.log(
+            `Content unchanged for include at line ${i}, no update needed`,
+          );
         }
       }
 
       // Store watchers
       this._manager.documentWatchers.set(documentKey, watchers);
 
-      // If we need to update the document, do it now
-      if (needsEdit) {
+      // If we need to update the document, do it now (or after confirmation)
+      if (result.changed && Constants.isConfirmUpdatesEnabled()) {
+        console.log(`Document ${document.uri} needs updates, previewing...`);
+        await this._manager.updateApproval.confirmUpdates(
+          document,
+          result.includes,
+        );
+      } else if (result.changed) {
         console.log(
           `Document ${document.uri} needs updates, applying changes...`,
         );
-        await this.updateDocument(editor, includeMap);
+        await this.updateDocument(editor, result.edits);
       } else {
         console.log(`No updates needed for document ${document.uri}`);
       }
@@ -246,71 +180,19 @@ export class DocumentProcessor {
   }
 
   /**
-   * Applies changes to the document when needed:
+   * Applies the edits of the IncludeEngine to the document:
    *
-   * 1. Handles both new includes and updates to existing includes
-   * 2. Maintains proper indentation for included content
-   * 3. Uses WorkspaceEdit for reliable document modification
-   * 4. Properly handles line offsets as content is added/changed
-   * 5. Manages the edit protection flag during updates
+   * 1. Converts the line-based edits into ranges of the document
+   * 2. Applies all of them in a single WorkspaceEdit, so no line offsets need to be tracked
+   * 3. Manages the edit protection flag during updates
    *
    * @param editor
-   * @param includeMap
+   * @param edits Non-overlapping edits relative to the current document text
    * @returns Promise<void>
    */
-  /**
-   * Neutralizes any include directives in the included content
-   * to prevent them from being processed and causing infinite includes
-   *
-   * @param content The content to process
-   * @param languageSettings The language settings for correct pattern matching
-   * @returns The content with neutralized include directives
-   */
-  private _neutralizeNestedIncludes(
-    content: string,
-    languageSettings: LanguageSettings,
-  ): string {
-    // Create a regex based on the language-specific include directive pattern
-    const includeRegex = new RegExp(languageSettings.includeDirectivePattern);
-
-    // Don't modify start/end markers
-    const startMarkerPattern = languageSettings.startMarkerTemplate.trim();
-    const endMarkerPattern = languageSettings.endMarkerTemplate.trim();
-
-    // Process line by line
-    const lines = content.split("\n");
-    const processedLines = lines.map((line) => {
-      // Skip modifying start and end markers
-      if (
-        line.trim() === startMarkerPattern ||
-        line.trim() === endMarkerPattern
-      ) {
-        return line;
-      }
-
-      // Only transform actual include directives
-      if (includeRegex.test(line)) {
-        // Replace "virtualInclude" with "virtualInclude-nested" to prevent processing
-        // Only replace the exact directive pattern, not any occurrence of "virtualInclude"
-        const transformedLine = line.replace(
-          /(\s*\S+\s+)virtualInclude(\s+["'].+?["'])/,
-          "$1virtualInclude-nested (edit source file to modify)$2",
-        );
-
-        console.log(
-          `Neutralized nested include directive: "${line}" -> "${transformedLine}"`,
-        );
-        return transformedLine;
-      }
-      return line;
-    });
-
-    return processedLines.join("\n");
-  }
-
   public async updateDocument(
     editor: vscode.TextEditor,
-    includeMap: Map<number, string>,
+    edits: IncludeEdit[],
   ): Promise<void> {
     try {
       // Set the flag to disable edit protection during our update
@@ -323,329 +205,464 @@ export class DocumentProcessor {
       }
 
       const document = editor.document;
-      const text = document.getText();
-      const lines = text.split("\n");
-
-      const languageSettings = LanguageService.getLanguageSettings(
-        document.languageId,
-      );
-
-      // We'll track line offset as we add/remove lines
-      let lineOffset = 0;
-
-      // Make a copy of lines to track the document's current state as we make changes
-      let currentLines = [...lines];
-
       console.log(
-        `Processing ${includeMap.size} includes in document ${document.uri}`,
+        `Applying ${edits.length} include edits to document ${document.uri}`,
       );
 
-      // Process each include in order (sort by line number to prevent issues)
-      for (const [lineNumber, content] of [...includeMap.entries()].sort(
-        (a, b) => a[0] - b[0],
-      )) {
-        const adjustedLine = lineNumber + lineOffset;
-
-        console.log(
-          `Processing include at original line ${lineNumber}, adjusted to ${adjustedLine} with offset ${lineOffset}`,
-        );
-
-        // Make sure we're not out of bounds
-        if (adjustedLine >= currentLines.length) {
-          console.log(
-            `Skipping line ${adjustedLine} (out of bounds) - currentLines.length = ${currentLines.length}`,
-          );
-          continue;
-        }
-
-        // Get indentation of the include line
-        const includeLine = currentLines[adjustedLine];
-        const indentation = includeLine.match(/^(\s*)/)?.[1] || "";
-
-        // Apply indentation to the content and markers
-        let indentedContent = content
-          .split("\n")
-          .map((line) => (line.length > 0 ? indentation + line : line))
-          .join("\n");
-
-        // Neutralize any nested include directives in the content
-        indentedContent = this._neutralizeNestedIncludes(
-          indentedContent,
-          languageSettings,
-        );
-
-        // Extract the include path from the line
-        const includePathMatch = includeLine.match(
-          /virtualInclude\s+["'](.+?)["']/,
-        );
-        const includePath = includePathMatch ? includePathMatch[1] : "";
-        const resolvedPath = this._resolveIncludePath(document, includePath);
-
-        // Get context-aware language settings for this include
-        const contextAwareSettings = LanguageService.getContextAwareSettings({
-          document,
-          lineNumber: adjustedLine,
-          line: includeLine,
-          includedFilePath: resolvedPath,
-        });
-
-        const indentedStartMarker =
-          indentation + contextAwareSettings.startMarkerTemplate;
-        const indentedEndMarker =
-          indentation + contextAwareSettings.endMarkerTemplate;
-
-        // Check if already expanded
-        const nextLineIndex = adjustedLine + 1;
-
-        // Check if we still have lines to process
-        if (nextLineIndex >= currentLines.length) {
-          console.log(
-            `Next line ${nextLineIndex} is beyond document end (${currentLines.length} lines)`,
-          );
-          continue;
-        }
-
-        const nextLineTrimmed = currentLines[nextLineIndex].trim();
-        const startMarkerTrimmed =
-          contextAwareSettings.startMarkerTemplate.trim();
-        const languageStartMarkerTrimmed =
-          languageSettings.startMarkerTemplate.trim();
-
-        if (
-          nextLineTrimmed === startMarkerTrimmed ||
-          nextLineTrimmed === languageStartMarkerTrimmed
-        ) {
-          // It's already expanded, find the end marker
-          let endLine = -1;
-
-          for (let j = nextLineIndex + 1; j < currentLines.length; j++) {
-            const lineTrimmed = currentLines[j].trim();
-            if (
-              lineTrimmed === contextAwareSettings.endMarkerTemplate.trim() ||
-              lineTrimmed === languageSettings.endMarkerTemplate.trim()
-            ) {
-              endLine = j;
-              break;
-            }
-          }
-
-          console.log(
-            `Found existing include block from line ${nextLineIndex} to ${endLine}`,
-          );
-
-          // Complete replacement - always replace the ENTIRE include section (start marker through end marker)
-          const workspaceEdit = new vscode.WorkspaceEdit();
-
-          if (endLine !== -1) {
-            // Found start and end markers - replace the entire block
-            const startPos = new vscode.Position(nextLineIndex, 0);
-            const endPos = new vscode.Position(endLine + 1, 0);
-
-            const newContent = `${indentedStartMarker}\n${indentedContent}\n${indentedEndMarker}\n`;
+      const workspaceEdit = new vscode.WorkspaceEdit();
+      for (const edit of edits) {
+        const textEdit = this.toTextEdit(document, edit);
+        workspaceEdit.replace(document.uri, textEdit.range, textEdit.newText);
+      }
 
-            // Replace with fresh markers and content
-            workspaceEdit.replace(
-              document.uri,
-              new vscode.Range(startPos, endPos),
-              newContent,
-            );
+      await vscode.workspace.applyEdit(workspaceEdit);
+    } catch (error) {
+      console.error(`Error in updateDocument: ${error}`);
+      this._manager.uiHandler.showErrorMessage(
+        `Extension error in updateDocument: ${error}`,
+      );
+    } finally {
+      // Reset the flag when done, regardless of success or failure
+      this._manager.isPerformingUpdate = false;
+    }
+  }
 
-            // Apply the edit
-            await vscode.workspace.applyEdit(workspaceEdit);
+  /**
+   * Replaces a block that was edited by hand with the content of its source, discarding the
+   * edits (see the contentHashes setting).
+   *
+   * @param document The including document
+   * @param line The line of the include directive
+   * @returns Promise<void>
+   */
+  public async restoreInclude(
+    document: vscode.TextDocument,
+    line: number,
+  ): Promise<void> {
+    const engine = await this.createEngine(document);
+    const result = engine.process(
+      document.getText(),
+      document.uri.fsPath,
+      document.languageId,
+      { overwriteModified: true },
+    );
+    const include = result.includes.find((inc) => inc.directive.line === line);
+
+    if (!include?.edit) {
+      this._manager.uiHandler.showInfoMessage("Include is already up to date");
+      return;
+    }
 
-            // Calculate how many lines were in the old content vs new content
-            const oldLineCount = endLine + 1 - nextLineIndex;
-            const newLineCount = newContent.split("\n").length - 1; // -1 because the last newline doesn't add a line
+    const textEdit = this.toTextEdit(document, include.edit);
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(document.uri, textEdit.range, textEdit.newText);
 
-            // Update our tracking array of current lines
-            const newContentLines = newContent.split("\n");
-            if (newContentLines[newContentLines.length - 1] === "") {
-              newContentLines.pop(); // Remove empty last line
-            }
+    this._manager.isPerformingUpdate = true;
+    try {
+      await vscode.workspace.applyEdit(workspaceEdit);
+    } finally {
+      this._manager.isPerformingUpdate = false;
+    }
+  }
 
-            // Replace the content in our tracking array
-            currentLines.splice(
-              nextLineIndex,
-              oldLineCount,
-              ...newContentLines,
-            );
-
-            // Update line offset
-            const lineDifference = newLineCount - oldLineCount;
-            lineOffset += lineDifference;
-
-            console.log(
-              `Replaced include block. Line difference: ${lineDifference}, new offset: ${lineOffset}`,
-            );
-          } else {
-            // Start marker exists but end marker is missing
-            console.log(
-              `End marker missing for include at line ${adjustedLine}`,
-            );
-
-            // Find a reasonable place to end our replacement (next 20 lines max)
-            const maxLines = Math.min(currentLines.length, nextLineIndex + 20);
-            let replacementEndLine = nextLineIndex + 1;
-
-            // Find the next include directive as a potential boundary
-            for (let j = nextLineIndex + 1; j < maxLines; j++) {
-              if (
-                currentLines[j].match(
-                  contextAwareSettings.includeDirectivePattern,
-                )
-              ) {
-                replacementEndLine = j;
-                break;
-              }
-              replacementEndLine = j;
-            }
+  /**
+   * Writes the content of a block that was edited by hand back to its source file, so the edits
+   * are kept. Only blocks that include a whole file can be written back, since the source of a
+   * selection or glob can't be reconstructed from the block.
+   *
+   * 1. Finds the block of the include and removes its indentation
+   * 2. Replaces the content of the source file and saves it
+   * 3. Reprocesses the document, which rewrites the hashes in the start marker
+   *
+   * @param document The including document
+   * @param line The line of the include directive
+   * @returns Promise<void>
+   */
+  public async copyBlockToSource(
+    document: vscode.TextDocument,
+    line: number,
+  ): Promise<void> {
+    const engine = await this.createEngine(document);
+    const directive = engine
+      .findDirectives(
+        document.getText(),
+        document.uri.fsPath,
+        document.languageId,
+      )
+      .find((d) => d.line === line);
+
+    if (
+      !directive ||
+      directive.isGlob ||
+      directive.region ||
+      directive.lineRange ||
+      directive.symbolPath
+    ) {
+      this._manager.uiHandler.showWarningMessage(
+        "Only includes of a whole file can be written back to their source",
+      );
+      return;
+    }
 
-            // Replace from start marker to our determined endpoint
-            const startPos = new vscode.Position(nextLineIndex, 0);
-            const endPos = new vscode.Position(replacementEndLine, 0);
+    const lines = document.getText().split("\n");
+    const { indentation, settings } = directive;
+    let endLine = -1;
+    for (let j = line + 2; j < lines.length; j++) {
+      if (DirectiveSyntax.isMarker(lines[j], settings.endMarkerTemplate)) {
+        endLine = j;
+        break;
+      }
+    }
 
-            const newContent = `${indentedStartMarker}\n${indentedContent}\n${indentedEndMarker}\n`;
+    // Neutralized nested directives can't be turned back into the source's directives
+    const blockLines = lines.slice(line + 2, endLine);
+    if (
+      endLine === -1 ||
+      blockLines.some((l) => l.includes("virtualInclude-nested"))
+    ) {
+      this._manager.uiHandler.showWarningMessage(
+        "This block can't be written back to its source",
+      );
+      return;
+    }
 
-            workspaceEdit.replace(
-              document.uri,
-              new vscode.Range(startPos, endPos),
-              newContent,
-            );
+    const sourceContent = blockLines
+      .map((l) => (l.startsWith(indentation) ? l.slice(indentation.length) : l))
+      .join("\n");
+
+    const sourceDocument = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(directive.resolvedPath),
+    );
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(
+      sourceDocument.uri,
+      new vscode.Range(
+        new vscode.Position(0, 0),
+        sourceDocument.lineAt(sourceDocument.lineCount - 1).range.end,
+      ),
+      sourceContent,
+    );
+    await vscode.workspace.applyEdit(workspaceEdit);
+    await sourceDocument.save();
+    console.log(`Wrote edited block back to ${directive.resolvedPath}`);
+
+    const editor = vscode.window.visibleTextEditors.find(
+      (e) => e.document === document,
+    );
+    if (editor) {
+      await this._manager.processDocument(editor);
+    }
+  }
 
-            // Apply the edit
-            await vscode.workspace.applyEdit(workspaceEdit);
+  /**
+   * Detaches a block from its source: removes the include directive and the markers, leaving the
+   * included content behind as ordinary text that is no longer updated or protected.
+   *
+   * @param document The including document
+   * @param line The line of the include directive
+   * @returns Promise<void>
+   */
+  public async detachInclude(
+    document: vscode.TextDocument,
+    line: number,
+  ): Promise<void> {
+    const engine = await this.createEngine(document);
+    const include = engine
+      .process(document.getText(), document.uri.fsPath, document.languageId)
+      .includes.find((inc) => inc.directive.line === line);
+
+    if (!include?.block) {
+      this._manager.uiHandler.showWarningMessage(
+        "Only expanded includes can be detached",
+      );
+      return;
+    }
 
-            // Calculate how many lines were in the old content vs new content
-            const oldLineCount = replacementEndLine - nextLineIndex;
-            const newLineCount = newContent.split("\n").length - 1; // -1 because the last newline doesn't add a line
+    const { startLine, endLine } = include.block;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.delete(
+      document.uri,
+      new vscode.Range(line, 0, startLine + 1, 0),
+    );
+    workspaceEdit.delete(
+      document.uri,
+      endLine + 1 < document.lineCount
+        ? new vscode.Range(endLine, 0, endLine + 1, 0)
+        : new vscode.Range(
+            document.lineAt(endLine - 1).range.end,
+            document.lineAt(endLine).range.end,
+          ),
+    );
+
+    this._manager.isPerformingUpdate = true;
+    try {
+      await vscode.workspace.applyEdit(workspaceEdit);
+    } finally {
+      this._manager.isPerformingUpdate = false;
+    }
+    console.log(
+      `Detached include of ${include.directive.includePath} in ${document.uri}`,
+    );
+  }
 
-            // Update our tracking array of current lines
-            const newContentLines = newContent.split("\n");
-            if (newContentLines[newContentLines.length - 1] === "") {
-              newContentLines.pop(); // Remove empty last line
-            }
+  /**
+   * Creates the missing file of an include and processes the document again, so the new file is
+   * included right away:
+   *
+   * 1. Finds the directive and makes sure its file doesn't exist yet
+   * 2. Creates the missing folders and the file, empty or with the content of the template
+   * 3. Reprocesses the document if it is visible
+   *
+   * @param document The including document
+   * @param line The line of the include directive
+   * @param fromTemplate Whether to seed the file with the newFileTemplate setting
+   * @returns Promise<void>
+   */
+  public async createIncludedFile(
+    document: vscode.TextDocument,
+    line: number,
+    fromTemplate: boolean,
+  ): Promise<void> {
+    const engine = await this.createEngine(document);
+    const directive = engine
+      .findDirectives(
+        document.getText(),
+        document.uri.fsPath,
+        document.languageId,
+      )
+      .find((d) => d.line === line);
+
+    if (
+      !directive ||
+      directive.isGlob ||
+      fs.existsSync(directive.resolvedPath)
+    ) {
+      this._manager.uiHandler.showWarningMessage(
+        "There is no missing file to create for this include",
+      );
+      return;
+    }
 
-            // Replace the content in our tracking array
-            currentLines.splice(
-              nextLineIndex,
-              oldLineCount,
-              ...newContentLines,
-            );
+    let content = "";
+    if (fromTemplate) {
+      const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+      const templatePath = path.resolve(
+        folder?.uri.fsPath ?? path.dirname(document.uri.fsPath),
+        Constants.getNewFileTemplate(),
+      );
+      try {
+        content = fs.readFileSync(templatePath, "utf8");
+      } catch (error) {
+        this._manager.uiHandler.showErrorMessage(
+          `Cannot read the new file template ${templatePath}: ${error}`,
+        );
+        return;
+      }
+    }
 
-            // Update line offset
-            const lineDifference = newLineCount - oldLineCount;
-            lineOffset += lineDifference;
+    try {
+      fs.mkdirSync(path.dirname(directive.resolvedPath), { recursive: true });
+      fs.writeFileSync(directive.resolvedPath, content);
+    } catch (error) {
+      this._manager.uiHandler.showErrorMessage(
+        `Cannot create the included file ${directive.resolvedPath}: ${error}`,
+      );
+      return;
+    }
+    console.log(`Created included file ${directive.resolvedPath}`);
 
-            console.log(
-              `Replaced partial include block. Line difference: ${lineDifference}, new offset: ${lineOffset}`,
-            );
-          }
-        } else {
-          // Not expanded yet, insert new content
-          console.log(`Insert new include content at line ${adjustedLine}`);
+    const editor = vscode.window.visibleTextEditors.find(
+      (e) => e.document === document,
+    );
+    if (editor) {
+      await this._manager.processDocument(editor);
+    }
+  }
 
-          const workspaceEdit = new vscode.WorkspaceEdit();
+  /**
+   * Removes an include directive together with its block, e.g. when the included file is gone
+   * for good.
+   *
+   * @param document The including document
+   * @param line The line of the include directive
+   * @returns Promise<void>
+   */
+  public async removeInclude(
+    document: vscode.TextDocument,
+    line: number,
+  ): Promise<void> {
+    const engine = await this.createEngine(document);
+    const include = engine
+      .process(document.getText(), document.uri.fsPath, document.languageId)
+      .includes.find((inc) => inc.directive.line === line);
+
+    if (!include) {
+      this._manager.uiHandler.showWarningMessage(
+        "There is no include directive on this line",
+      );
+      return;
+    }
 
-          // Get the end of the current line
-          const currentLineLength = includeLine.length;
-          const endOfLine = new vscode.Position(
-            adjustedLine,
-            currentLineLength,
+    // Remove the line break before the last line of the document instead of the one after it
+    const lastLine = include.block?.endLine ?? line;
+    const range =
+      lastLine + 1 < document.lineCount
+        ? new vscode.Range(line, 0, lastLine + 1, 0)
+        : new vscode.Range(
+            line > 0
+              ? document.lineAt(line - 1).range.end
+              : new vscode.Position(0, 0),
+            document.lineAt(lastLine).range.end,
           );
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.delete(document.uri, range);
 
-          const newContent = `\n${indentedStartMarker}\n${indentedContent}\n${indentedEndMarker}\n`;
+    this._manager.isPerformingUpdate = true;
+    try {
+      await vscode.workspace.applyEdit(workspaceEdit);
+    } finally {
+      this._manager.isPerformingUpdate = false;
+    }
+    console.log(
+      `Removed include of ${include.directive.includePath} in ${document.uri}`,
+    );
+  }
 
-          // Insert a newline followed by our markers and content
-          workspaceEdit.insert(document.uri, endOfLine, newContent);
+  /**
+   * Applies the edits of a marker fix (see IncludeEngine.checkMarkers), with edit protection
+   * paused, and processes the document again.
+   *
+   * @param document The including document
+   * @param edits The line-based edits of the fix
+   * @returns Promise<void>
+   */
+  public async repairMarkers(
+    document: vscode.TextDocument,
+    edits: IncludeEdit[],
+  ): Promise<void> {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const edit of edits) {
+      const textEdit = this.toTextEdit(document, edit);
+      workspaceEdit.replace(document.uri, textEdit.range, textEdit.newText);
+    }
 
-          // Apply the edit
-          await vscode.workspace.applyEdit(workspaceEdit);
+    this._manager.isPerformingUpdate = true;
+    try {
+      await vscode.workspace.applyEdit(workspaceEdit);
+    } finally {
+      this._manager.isPerformingUpdate = false;
+    }
+    console.log(`Repaired include markers in ${document.uri}`);
 
-          // The new content lines
-          const newContentLines = newContent.split("\n");
-          if (newContentLines[newContentLines.length - 1] === "") {
-            newContentLines.pop(); // Remove empty last line
-          }
+    const editor = vscode.window.visibleTextEditors.find(
+      (e) => e.document === document,
+    );
+    if (editor) {
+      await this._manager.processDocument(editor);
+    }
+  }
 
-          // Update our tracking array to maintain sync with the document
-          // We need to insert after the current line (adjustedLine)
-          currentLines.splice(adjustedLine + 1, 0, ...newContentLines.slice(1)); // Skip the first element (empty string from initial newline)
+  /**
+   * Converts a line-based edit into a text edit. Lines past the end of the document have no
+   * line break before them yet, so edits reaching the end are anchored to the last line.
+   *
+   * @param document
+   * @param edit
+   * @returns vscode.TextEdit
+   */
+  public toTextEdit(
+    document: vscode.TextDocument,
+    edit: IncludeEdit,
+  ): vscode.TextEdit {
+    const newText = edit.lines.map((line) => `${line}\n`).join("");
+    const documentEnd = document.lineAt(document.lineCount - 1).range.end;
 
-          // Update line offset - add the number of lines we inserted
-          lineOffset += newContentLines.length - 1; // -1 because the first newline doesn't add a line
+    if (edit.startLine >= document.lineCount) {
+      return vscode.TextEdit.insert(documentEnd, `\n${newText.slice(0, -1)}`);
+    }
 
-          console.log(
-            `Inserted new include content. Added ${
-              newContentLines.length - 1
-            } lines, new offset: ${lineOffset}`,
-          );
-        }
-      }
-    } catch (error) {
-      console.error(`Error in updateDocument: ${error}`);
-      this._manager.uiHandler.showErrorMessage(
-        `Extension error in updateDocument: ${error}`,
+    const start = new vscode.Position(edit.startLine, 0);
+    if (edit.endLine >= document.lineCount) {
+      return vscode.TextEdit.replace(
+        new vscode.Range(start, documentEnd),
+        newText.slice(0, -1),
       );
-    } finally {
-      // Reset the flag when done, regardless of success or failure
-      this._manager.isPerformingUpdate = false;
     }
+
+    return vscode.TextEdit.replace(
+      new vscode.Range(start, new vscode.Position(edit.endLine, 0)),
+      newText,
+    );
   }
 
   /**
-   * Resolves relative paths based on document location.
+   * Creates an IncludeEngine for a document with the current configuration. Symbol selectors
+   * need the (asynchronous) document symbol provider, so their ranges are resolved up front
+   * and handed to the engine through its host.
    *
-   * 1. Handles both absolute and relative paths
-   * 2. Ensures the correct source file is read
-   *
-   * @param document
-   * @param includePath
-   * @returns string
+   * @param document The including document
+   * @returns Promise<IncludeEngine>
    */
-  private _resolveIncludePath(
+  public async createEngine(
     document: vscode.TextDocument,
-    includePath: string,
-  ): string {
-    if (path.isAbsolute(includePath)) {
-      return includePath;
+  ): Promise<IncludeEngine> {
+    const config = Constants.getIncludeConfig(document.uri.fsPath);
+    const symbolRanges = new Map<string, LineRange | null>();
+    const directives = new IncludeEngine(config).findDirectives(
+      document.getText(),
+      document.uri.fsPath,
+      document.languageId,
+    );
+
+    for (const directive of directives) {
+      if (!directive.symbolPath || directive.isSelfInclude) {
+        continue;
+      }
+
+      const sourcePaths = directive.isGlob
+        ? GlobInclude.findMatches(directive.resolvedPath)
+        : [directive.resolvedPath];
+
+      for (const sourcePath of sourcePaths) {
+        const key = `${sourcePath}#${directive.symbolPath}`;
+        if (symbolRanges.has(key) || !fs.existsSync(sourcePath)) {
+          continue;
+        }
+
+        const symbolRange = await SymbolResolver.findSymbolRange(
+          vscode.Uri.file(sourcePath),
+          directive.symbolPath,
+        );
+        symbolRanges.set(
+          key,
+          symbolRange
+            ? {
+                start: symbolRange.start.line + 1,
+                end: symbolRange.end.line + 1,
+              }
+            : null,
+        );
+      }
     }
 
-    const documentDir = path.dirname(document.uri.fsPath);
-    return path.resolve(documentDir, includePath);
+    return new IncludeEngine(config, {
+      ...NODE_INCLUDE_HOST,
+      resolveSymbol: (filePath, symbolPath) =>
+        symbolRanges.get(`${filePath}#${symbolPath}`) ?? null,
+    });
   }
 
   /**
-   * Check if document is being included in itself.
+   * Records that a document includes a source file (or glob pattern), so that changes to the
+   * source can be propagated to the document.
    *
-   * @param document
-   * @param includePath
-   * @returns
+   * @param sourcePath
+   * @param documentKey
    */
-  private _isSelfInclude(
-    document: vscode.TextDocument,
-    includePath: string,
-  ): boolean {
-    // Always resolve the include path, even if it looks like an absolute path
-    const resolvedIncludePath = this._resolveIncludePath(document, includePath);
-    const documentPath = document.uri.fsPath;
-
-    // Add more debug logging
-    console.log("Self-include check:");
-    console.log(`- Document path: ${documentPath}`);
-    console.log(`- Include path: ${includePath}`);
-    console.log(`- Resolved path: ${resolvedIncludePath}`);
-
-    // Use path.normalize to handle different path formats
-    const normalizedDocPath = path.normalize(documentPath);
-    const normalizedIncludePath = path.normalize(resolvedIncludePath);
-
-    const isSelfInclude =
-      process.platform === "win32"
-        ? normalizedIncludePath.toLowerCase() ===
-          normalizedDocPath.toLowerCase()
-        : normalizedIncludePath === normalizedDocPath;
-
-    console.log(`- Normalized paths match? ${isSelfInclude}`);
-    return isSelfInclude;
+  private _trackSource(sourcePath: string, documentKey: string): void {
+    if (!this._manager.sourceToDocuments.has(sourcePath)) {
+      this._manager.sourceToDocuments.set(sourcePath, new Set<string>());
+    }
+    this._manager.sourceToDocuments.get(sourcePath)!.add(documentKey);
   }
 }
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { VirtualIncludeManager } from "./virtual-include-manager";
 import { LanguageService } from "./language-service";
+import { DirectiveSyntax } from "./core";
 
 /**
  * The edit-protection module is responsible for preventing users from editing content
@@ -25,9 +26,9 @@ import { LanguageService } from "./language-service";
  * to modify it, providing clear feedback without disrupting the document state. This happens with
  * a small delay (10ms) to ensure the edit is fully processed before restoration.
  *
- * Additionally, when a document is saved, the component checks for and fixes any incomplete protected
- * regions, ensuring the document stays in a valid state. This protection mechanism is crucial for
- * maintaining the integrity of included content while providing a good user experience with clear feedback.
+ * Markers that don't form a complete region are not protected; the DiagnosticsManager reports
+ * them with quick fixes to repair them. This protection mechanism is crucial for maintaining the
+ * integrity of included content while providing a good user experience with clear feedback.
  */
 export class EditProtection {
   constructor(private _manager: VirtualIncludeManager) {}
@@ -47,13 +48,18 @@ export class EditProtection {
   public async handleProtectedEdits(
     e: vscode.TextDocumentChangeEvent,
   ): Promise<void> {
-    // Skip protection check if we're performing a programmatic update
-    if (this._manager.isPerformingUpdate) {
+    // Skip protection check if we're performing a programmatic update, or the refactor preview
+    // applies accepted include updates
+    if (
+      this._manager.isPerformingUpdate ||
+      this._manager.updateApproval.isPreviewedChange(e)
+    ) {
       return;
     }
 
     const languageSettings = LanguageService.getLanguageSettings(
       e.document.languageId,
+      e.document.uri.fsPath,
     );
 
     const document = e.document;
@@ -69,11 +75,19 @@ export class EditProtection {
     for (let i = 0; i < lines.length; i++) {
       const lineTrimmed = lines[i].trim();
 
-      if (lineTrimmed === languageSettings.startMarkerTemplate.trim()) {
+      if (
+        DirectiveSyntax.isMarker(
+          lineTrimmed,
+          languageSettings.startMarkerTemplate,
+        )
+      ) {
         inProtectedRegion = true;
         currentStart = i;
       } else if (
-        lineTrimmed === languageSettings.endMarkerTemplate.trim() &&
+        DirectiveSyntax.isMarker(
+          lineTrimmed,
+          languageSettings.endMarkerTemplate,
+        ) &&
         inProtectedRegion
       ) {
         inProtectedRegion = false;
@@ -145,61 +159,4 @@ export class EditProtection {
       }
     }
   }
-
-  /**
-   * Fixes any incomplete protected regions during save:
-   *
-   * 1. Checks for missing end markers in protected regions
-   * 2. Adds missing markers to ensure the document structure is valid
-   * 3. Maintains proper indentation for added markers
-   *
-   * @param document
-   * @returns Promise<vscode.TextEdit[]>
-   */
-  public async preventProtectedEdits(
-    document: vscode.TextDocument,
-  ): Promise<vscode.TextEdit[]> {
-    const text = document.getText();
-    const lines = text.split("\n");
-    const edits: vscode.TextEdit[] = [];
-
-    const languageSettings = LanguageService.getLanguageSettings(
-      document.languageId,
-    );
-
-    // Find protected regions
-    let inProtectedRegion = false;
-    let protectedStart = -1;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      if (line.trim() === languageSettings.startMarkerTemplate.trim()) {
-        inProtectedRegion = true;
-        protectedStart = i;
-      } else if (line.trim() === languageSettings.endMarkerTemplate.trim()) {
-        inProtectedRegion = false;
-        protectedStart = -1;
-      }
-    }
-
-    // If we ended in a protected region (missing end marker)
-    // Add an edit to fix it
-    if (inProtectedRegion && protectedStart !== -1) {
-      // Get indentation from protected start line
-      const startLine = lines[protectedStart];
-      const indentation = startLine.match(/^(\s*)/)?.[1] || "";
-      const indentedEndMarker =
-        indentation + languageSettings.endMarkerTemplate;
-
-      edits.push(
-        vscode.TextEdit.insert(
-          new vscode.Position(lines.length, 0),
-          `\n${indentedEndMarker}\n`,
-        ),
-      );
-    }
-
-    return edits;
-  }
 }
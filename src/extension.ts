@@ -2,8 +2,21 @@ import * as vscode from "vscode";
 import { VirtualIncludeManager } from "./virtual-include-manager";
 import {
   VirtualIncludeCodeLensProvider,
+  VirtualIncludeSourceCodeLensProvider,
   openIncludedFile,
 } from "./code-lens-provider";
+import { VirtualIncludeCodeActionProvider } from "./code-action-provider";
+import { VirtualIncludeCompletionProvider } from "./completion-provider";
+import { VirtualIncludeHoverProvider } from "./hover-provider";
+import { IncludeTreeNode, IncludeTreeProvider } from "./include-tree";
+import { ConfigFiles, IncludeEdit } from "./core";
+import { FolderConfigurations } from "./folder-configuration";
+import { LanguageConfigurations } from "./language-configuration";
+import {
+  VirtualIncludeDefinitionProvider,
+  VirtualIncludeDocumentLinkProvider,
+  VirtualIncludeReferenceProvider,
+} from "./include-navigation";
 
 /**
  * The extension file serves as the entry point for the Virtual Include extension.
@@ -28,8 +41,8 @@ export function activate(context: vscode.ExtensionContext) {
   // Create the manager instance
   const manager = new VirtualIncludeManager();
 
-  // Initialize the manager
-  manager.initialize();
+  // Initialize the manager, persisting the include index in workspace storage
+  manager.initialize(context.workspaceState);
 
   // Register commands
   const processCommand = vscode.commands.registerCommand(
@@ -37,11 +50,85 @@ export function activate(context: vscode.ExtensionContext) {
     async () => {
       const editor = vscode.window.activeTextEditor;
       if (editor) {
+        // Offer updates that were rejected in the refactor preview again
+        manager.updateApproval.clearRejections(editor.document);
         await manager.processDocument(editor);
       }
     },
   );
 
+  // Register the command to update the includes of all files in the workspace
+  const processWorkspaceCommand = vscode.commands.registerCommand(
+    "virtualInclude.processWorkspace",
+    () => manager.workspaceProcessor.processWorkspace(),
+  );
+
+  // Register the commands of the quick fixes for blocks that were edited by hand
+  const restoreIncludeCommand = vscode.commands.registerCommand(
+    "virtualInclude.restoreInclude",
+    async (uri: vscode.Uri, line: number) =>
+      manager.documentProcessor.restoreInclude(
+        await vscode.workspace.openTextDocument(uri),
+        line,
+      ),
+  );
+  const copyBlockToSourceCommand = vscode.commands.registerCommand(
+    "virtualInclude.copyBlockToSource",
+    async (uri: vscode.Uri, line: number) =>
+      manager.documentProcessor.copyBlockToSource(
+        await vscode.workspace.openTextDocument(uri),
+        line,
+      ),
+  );
+
+  // Register the commands of the quick fixes for missing included files
+  const createIncludedFileCommand = vscode.commands.registerCommand(
+    "virtualInclude.createIncludedFile",
+    async (uri: vscode.Uri, line: number, fromTemplate: boolean) =>
+      manager.documentProcessor.createIncludedFile(
+        await vscode.workspace.openTextDocument(uri),
+        line,
+        fromTemplate,
+      ),
+  );
+  const removeIncludeCommand = vscode.commands.registerCommand(
+    "virtualInclude.removeInclude",
+    async (uri: vscode.Uri, line: number) =>
+      manager.documentProcessor.removeInclude(
+        await vscode.workspace.openTextDocument(uri),
+        line,
+      ),
+  );
+
+  // Register the command of the quick fixes for broken markers
+  const repairMarkersCommand = vscode.commands.registerCommand(
+    "virtualInclude.repairMarkers",
+    async (uri: vscode.Uri, edits: IncludeEdit[]) =>
+      manager.documentProcessor.repairMarkers(
+        await vscode.workspace.openTextDocument(uri),
+        edits,
+      ),
+  );
+
+  // Register the command of the hover that turns a block into ordinary text
+  const detachIncludeCommand = vscode.commands.registerCommand(
+    "virtualInclude.detachInclude",
+    async (uri: vscode.Uri | string, line: number) =>
+      manager.documentProcessor.detachInclude(
+        await vscode.workspace.openTextDocument(
+          typeof uri === "string" ? vscode.Uri.parse(uri) : uri,
+        ),
+        line,
+      ),
+  );
+
+  // Register the command of the "Included by" code lens
+  const showIncludersCommand = vscode.commands.registerCommand(
+    "virtualInclude.showIncluders",
+    (sourcePath: string) =>
+      manager.uiHandler.showAffectedFilesQuickPick(sourcePath),
+  );
+
   // Register the command to open included files
   const openIncludedFileCommand = vscode.commands.registerCommand(
     "virtualInclude.openIncludedFile",
@@ -80,11 +167,133 @@ export function activate(context: vscode.ExtensionContext) {
     codeLensProvider,
   );
 
+  // Show how many files include a source file at its top
+  const sourceCodeLensProvider = new VirtualIncludeSourceCodeLensProvider(
+    manager,
+  );
+  const sourceCodeLensRegistration = vscode.languages.registerCodeLensProvider(
+    { scheme: "file" },
+    sourceCodeLensProvider,
+  );
+
+  // Register the quick fixes for include diagnostics
+  const codeActionRegistration = vscode.languages.registerCodeActionsProvider(
+    { scheme: "file" },
+    new VirtualIncludeCodeActionProvider(),
+    {
+      providedCodeActionKinds:
+        VirtualIncludeCodeActionProvider.providedCodeActionKinds,
+    },
+  );
+
+  // Make include paths clickable and support "Go to Definition" on them
+  const documentLinkRegistration =
+    vscode.languages.registerDocumentLinkProvider(
+      { scheme: "file" },
+      new VirtualIncludeDocumentLinkProvider(),
+    );
+  const definitionRegistration = vscode.languages.registerDefinitionProvider(
+    { scheme: "file" },
+    new VirtualIncludeDefinitionProvider(),
+  );
+
+  // List the directives including a source file with "Find All References"
+  const referenceRegistration = vscode.languages.registerReferenceProvider(
+    { scheme: "file" },
+    new VirtualIncludeReferenceProvider(manager),
+  );
+
+  // Suggest files and folders while typing include paths
+  const completionRegistration =
+    vscode.languages.registerCompletionItemProvider(
+      { scheme: "file" },
+      new VirtualIncludeCompletionProvider(),
+      ...VirtualIncludeCompletionProvider.triggerCharacters,
+    );
+
+  // Show the details of an include when hovering its directive or block
+  const hoverRegistration = vscode.languages.registerHoverProvider(
+    { scheme: "file" },
+    new VirtualIncludeHoverProvider(manager),
+  );
+
+  // Show the include graph in the Explorer
+  const includeTreeProvider = new IncludeTreeProvider(manager);
+  const includeTreeView = vscode.window.createTreeView(
+    "virtualInclude.includeTree",
+    { treeDataProvider: includeTreeProvider, showCollapseAll: true },
+  );
+  includeTreeView.description = "Documents";
+  const includeTreeCommands = [
+    vscode.commands.registerCommand("virtualInclude.includeTree.refresh", () =>
+      includeTreeProvider.refresh(),
+    ),
+    vscode.commands.registerCommand(
+      "virtualInclude.includeTree.toggleMode",
+      () => {
+        includeTreeProvider.toggleMode();
+        includeTreeView.description =
+          includeTreeProvider.mode === "documents" ? "Documents" : "Sources";
+      },
+    ),
+    vscode.commands.registerCommand(
+      "virtualInclude.includeTree.open",
+      (node: IncludeTreeNode) => includeTreeProvider.open(node),
+    ),
+    vscode.commands.registerCommand(
+      "virtualInclude.includeTree.update",
+      (node: IncludeTreeNode) => includeTreeProvider.update(node),
+    ),
+    vscode.commands.registerCommand(
+      "virtualInclude.includeTree.reveal",
+      (node: IncludeTreeNode) => includeTreeProvider.reveal(node),
+    ),
+  ];
+
+  // Read the comment styles of languages again when extensions are installed or removed
+  const extensionsChangeListener = vscode.extensions.onDidChange(() =>
+    LanguageConfigurations.reset(),
+  );
+
+  // Read the .virtualinclude.json files of folders again when one of them changes, and resolve
+  // the sources of the include index with them
+  const configFileWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/{${ConfigFiles.FILE_NAMES.join(",")}}`,
+  );
+  const onConfigFileChange = () => {
+    FolderConfigurations.reset();
+    manager.includeIndex.invalidate();
+  };
+  configFileWatcher.onDidCreate(onConfigFileChange);
+  configFileWatcher.onDidChange(onConfigFileChange);
+  configFileWatcher.onDidDelete(onConfigFileChange);
+
   // Add disposables to context
   context.subscriptions.push(
     processCommand,
+    processWorkspaceCommand,
+    restoreIncludeCommand,
+    copyBlockToSourceCommand,
+    createIncludedFileCommand,
+    removeIncludeCommand,
+    repairMarkersCommand,
+    detachIncludeCommand,
+    showIncludersCommand,
     openIncludedFileCommand,
     codeLensRegistration,
+    sourceCodeLensProvider,
+    sourceCodeLensRegistration,
+    codeActionRegistration,
+    documentLinkRegistration,
+    definitionRegistration,
+    referenceRegistration,
+    completionRegistration,
+    hoverRegistration,
+    includeTreeProvider,
+    includeTreeView,
+    ...includeTreeCommands,
+    extensionsChangeListener,
+    configFileWatcher,
     manager,
   );
 
@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { VirtualIncludeManager } from "./virtual-include-manager";
+import { Constants } from "./constants";
+import { GlobInclude } from "./core";
 
 /**
  * The file-watcher.ts module is responsible for monitoring changes to source files
@@ -12,7 +14,8 @@ import { VirtualIncludeManager } from "./virtual-include-manager";
  * HOW IT WORKS IN DETAIL
  *
  * When a virtual include is processed, the DocumentProcessor calls the FileWatcher
- * to create a watcher for the included file. The watcher listens for changes to that file.
+ * to create a watcher for the included file. The watcher listens for changes to that file
+ * (or, for glob includes, for files matching the glob being changed, added or removed).
  * When a change occurs:
  *
  * - The watcher triggers the handleSourceFileChange method
@@ -36,11 +39,16 @@ export class FileWatcher {
    * 1. Sets up event handlers for file changes and deletions
    * 2. Returns the watcher so it can be tracked by the manager
    * 3. Uses RelativePattern to watch only the specific file
+   * 4. Delegates glob includes to createGlobWatcher
    *
    * @param sourcePath
    * @returns vscode.FileSystemWatcher
    */
   public createWatcher(sourcePath: string): vscode.FileSystemWatcher {
+    if (GlobInclude.isGlobPattern(sourcePath)) {
+      return this.createGlobWatcher(sourcePath);
+    }
+
     const watcher = vscode.workspace.createFileSystemWatcher(
       new vscode.RelativePattern(
         path.dirname(sourcePath),
@@ -68,6 +76,36 @@ export class FileWatcher {
     return watcher;
   }
 
+  /**
+   * Creates a new FileSystemWatcher for a glob include:
+   *
+   * 1. Watches the glob relative to its base directory
+   * 2. Reprocesses the including documents when a matching file changes, and also when
+   *    one is added to or removed from the glob
+   *
+   * @param pattern The resolved glob pattern, which is also the key in sourceToDocuments
+   * @returns vscode.FileSystemWatcher
+   */
+  public createGlobWatcher(pattern: string): vscode.FileSystemWatcher {
+    const { baseDir, relativePattern } = GlobInclude.splitPattern(pattern);
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(baseDir, relativePattern),
+    );
+
+    const onGlobChange = async (uri: vscode.Uri) => {
+      console.log(
+        `File ${uri.fsPath} matching ${pattern} changed, will reprocess includes`,
+      );
+      await this.handleSourceFileChange(pattern);
+    };
+
+    watcher.onDidChange(onGlobChange);
+    watcher.onDidCreate(onGlobChange);
+    watcher.onDidDelete(onGlobChange);
+
+    return watcher;
+  }
+
   /**
    * Called when a source file changes:
    *
@@ -82,8 +120,15 @@ export class FileWatcher {
    */
   public async handleSourceFileChange(sourcePath: string): Promise<void> {
     // Get all documents that include this file
-    const affectedDocuments =
-      this._manager.sourceToDocuments.get(sourcePath) || new Set<string>();
+    const affectedDocuments = this._manager.getIncluders(sourcePath);
+
+    // Without auto-processing, the includes are only updated by explicit commands
+    if (affectedDocuments.size > 0 && !Constants.isAutoProcessEnabled()) {
+      console.log(
+        `Auto-processing is disabled, not updating ${affectedDocuments.size} document(s) including ${sourcePath}`,
+      );
+      return;
+    }
 
     if (affectedDocuments.size > 0) {
       // Set the flag to disable edit protection during update
@@ -95,15 +140,15 @@ export class FileWatcher {
 
         for (const docUri of affectedDocuments) {
           try {
-            const textDocument = await vscode.workspace.openTextDocument(
-              vscode.Uri.parse(docUri),
-            );
+            // Only documents open in an editor are updated, so the includers that are only
+            // known to the index are not loaded
             const editors = vscode.window.visibleTextEditors.filter(
               (e) => e.document.uri.toString() === docUri,
             );
 
-            // If the document is open in an editor, update it
             if (editors.length > 0) {
+              const textDocument = editors[0].document;
+
               // Track if the document was dirty before our update
               const wasDirty = textDocument.isDirty;
 
@@ -0,0 +1,52 @@
+import * as path from "path";
+import { ConfigFile, ConfigFiles } from "./core";
+
+/**
+ * The FolderConfigurations class provides the .virtualinclude.json (or .virtualincluderc) files
+ * that apply to a document, so the packages of a monorepo can use their own markers, patterns,
+ * search paths and overrides.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * The files are looked up by the headless core (see ConfigFiles), from the document's directory
+ * upwards. Since the settings are needed for every include, hover and keystroke, the files found
+ * for a directory are cached until a configuration file is created, changed or deleted, which the
+ * extension watches for. Files that can't be parsed are logged and skipped.
+ *
+ * Constants.getIncludeConfig applies the files on top of the "virtualInclude.*" settings when it
+ * is given the path of the document.
+ */
+export class FolderConfigurations {
+  private static _cache = new Map<string, ConfigFile[]>();
+
+  /**
+   * Gets the configuration files that apply to a document.
+   *
+   * @param documentPath
+   * @returns ConfigFile[] From the outermost to the nearest file
+   */
+  public static getConfigFiles(documentPath: string): ConfigFile[] {
+    const directory = path.dirname(documentPath);
+    const cached = this._cache.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    const files = ConfigFiles.find(documentPath);
+    for (const file of files) {
+      if (file.error) {
+        console.log(`Skipping configuration file ${file.path}: ${file.error}`);
+      }
+    }
+
+    this._cache.set(directory, files);
+    return files;
+  }
+
+  /**
+   * Forgets the cached configuration files, e.g. after one of them changed.
+   */
+  public static reset(): void {
+    this._cache.clear();
+  }
+}
@@ -0,0 +1,205 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import {
+  ContentExtractor,
+  GlobInclude,
+  IncludeEngine,
+  IncludeResult,
+  IncludeStatus,
+} from "./core";
+
+/**
+ * The HoverProvider class shows the details of an include when hovering its directive or any line
+ * of its block, so the state of an include can be checked without opening the source file.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the user hovers a line, the HoverProvider:
+ *
+ * - Processes the document with the IncludeEngine (without applying anything), which finds the
+ *   directives together with the block between their start and end markers
+ * - Picks the include whose directive or block contains the hovered line
+ * - Shows the resolved path of the source (and the search path it was found in), when it was
+ *   last modified, its line count, whether the block is up to date and the first lines of the
+ *   included content
+ * - Adds command links to open the source, refresh the includes of the document or detach the
+ *   block from its source
+ */
+export class VirtualIncludeHoverProvider implements vscode.HoverProvider {
+  private static readonly PREVIEW_LINES = 5;
+
+  private static readonly STATUS_LABELS: Record<IncludeStatus, string> = {
+    upToDate: "✅ Up to date",
+    stale: "🔄 Out of date, the source changed",
+    modified: "✏️ Edited by hand",
+    notExpanded: "➕ Not expanded yet",
+    unterminated: "⚠️ End marker missing",
+    missing: "❌ Included file not found",
+    invalidSelection: "❌ Selection not found in the included file",
+    selfInclude: "❌ The file includes itself",
+  };
+
+  constructor(private _manager: VirtualIncludeManager) {}
+
+  /**
+   * Provides a hover for the include whose directive or block contains the position
+   *
+   * @param document The document being hovered
+   * @param position The hovered position
+   * @returns Promise<vscode.Hover|undefined>
+   */
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | undefined> {
+    if (!document.getText().includes("virtualInclude")) {
+      return undefined;
+    }
+
+    const engine = await this._manager.documentProcessor.createEngine(document);
+    const include = engine
+      .process(document.getText(), document.uri.fsPath, document.languageId)
+      .includes.find(
+        (inc) =>
+          inc.directive.line === position.line ||
+          (inc.block &&
+            position.line >= inc.block.startLine &&
+            position.line <= inc.block.endLine),
+      );
+    if (!include) {
+      return undefined;
+    }
+
+    const { line } = include.directive;
+    return new vscode.Hover(
+      this._createContent(document, engine, include),
+      include.block
+        ? new vscode.Range(line, 0, include.block.endLine, 0)
+        : document.lineAt(line).range,
+    );
+  }
+
+  /**
+   * Creates the markdown of the hover:
+   *
+   * 1. The include path and the command links
+   * 2. The details of the source file(s)
+   * 3. The status of the block
+   * 4. A preview of the included content
+   *
+   * @param document
+   * @param engine The engine the document was processed with
+   * @param include
+   * @returns vscode.MarkdownString
+   */
+  private _createContent(
+    document: vscode.TextDocument,
+    engine: IncludeEngine,
+    include: IncludeResult,
+  ): vscode.MarkdownString {
+    const { directive } = include;
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = {
+      enabledCommands: [
+        "virtualInclude.openIncludedFile",
+        "virtualInclude.process",
+        "virtualInclude.detachInclude",
+      ],
+    };
+
+    markdown.appendMarkdown(
+      `**Virtual Include** \`${directive.includePath}\`\n\n`,
+    );
+    markdown.appendMarkdown(
+      [
+        this._commandLink("Open", "virtualInclude.openIncludedFile", [
+          document.uri.toString(),
+          directive.includePath,
+          directive.symbolPath,
+          directive.lineRange,
+        ]),
+        this._commandLink("Refresh", "virtualInclude.process", []),
+        ...(include.block
+          ? [
+              this._commandLink("Detach", "virtualInclude.detachInclude", [
+                document.uri.toString(),
+                directive.line,
+              ]),
+            ]
+          : []),
+      ].join(" | ") + "\n\n",
+    );
+
+    markdown.appendMarkdown(`${this._describeSource(include)}\n\n`);
+    markdown.appendMarkdown(
+      `Status: ${VirtualIncludeHoverProvider.STATUS_LABELS[include.status]}\n`,
+    );
+
+    const content = include.resolution?.content;
+    if (typeof content === "string") {
+      const lines = content.split("\n");
+      const preview = lines.slice(0, VirtualIncludeHoverProvider.PREVIEW_LINES);
+      if (lines.length > preview.length) {
+        preview.push("…");
+      }
+      markdown.appendCodeblock(
+        preview.join("\n"),
+        directive.isGlob
+          ? document.languageId
+          : engine.rules.getFileLanguage(directive.resolvedPath) ||
+              document.languageId,
+      );
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Describes the source of an include: the resolved path, modification time and line count of
+   * a file, or the number of files matching a glob.
+   *
+   * @param include
+   * @returns string Markdown
+   */
+  private _describeSource(include: IncludeResult): string {
+    const { resolvedPath } = include.directive;
+
+    if (include.directive.isGlob) {
+      const matches = GlobInclude.findMatches(resolvedPath);
+      return `Pattern: \`${resolvedPath}\`  \nMatching files: ${matches.length}`;
+    }
+
+    if (!fs.existsSync(resolvedPath)) {
+      return `Path: \`${resolvedPath}\``;
+    }
+
+    const stat = fs.statSync(resolvedPath);
+    const lineCount = ContentExtractor.countLines(
+      fs.readFileSync(resolvedPath, "utf8"),
+    );
+    const { searchPath } = include.directive;
+    return (
+      `Path: \`${resolvedPath}\`  \n` +
+      (searchPath ? `Found in search path: \`${searchPath}\`  \n` : "") +
+      `Last modified: ${stat.mtime.toLocaleString()}  \n` +
+      `Lines: ${lineCount}`
+    );
+  }
+
+  /**
+   * Creates a markdown link that runs a command.
+   *
+   * @param title
+   * @param command
+   * @param args The arguments of the command, passed as JSON
+   * @returns string
+   */
+  private _commandLink(
+    title: string,
+    command: string,
+    args: unknown[],
+  ): string {
+    return `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
+  }
+}
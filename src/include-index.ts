@@ -0,0 +1,476 @@
+import * as vscode from "vscode";
+import { Constants } from "./constants";
+import { ConfigFiles, DirectiveSyntax, IncludeEngine } from "./core";
+import { LanguageService } from "./language-service";
+
+/**
+ * The include-index module keeps a workspace-wide graph of which files include which source files.
+ * The sourceToDocuments map of the manager only knows the documents processed in the current
+ * session, so on its own it under-reports the files that depend on a source file. The index fills
+ * that gap by scanning every file in the workspace.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the extension is activated, the IncludeIndex:
+ *
+ * - Restores the index persisted in workspace storage by the previous session
+ * - Finds all workspace files with the "workspaceInclude" and "workspaceExclude" globs
+ * - Re-reads only the files whose modification time differs from the persisted one, and drops
+ *   files that no longer exist, so startup stays fast on large monorepos
+ * - Parses each re-read file with the IncludeEngine and records the resolved paths of its
+ *   include directives (glob includes are recorded by their resolved pattern, like in
+ *   sourceToDocuments)
+ *
+ * Afterwards a FileSystemWatcher keeps the index up to date as files are created, changed or
+ * deleted, and renames move the entry of the renamed file. Every change is written back to
+ * workspace storage after a short delay, so bursts of file events are persisted only once.
+ *
+ * The resolved sources depend on the "virtualInclude.*" settings and the .virtualinclude.json
+ * files, so the whole index is rebuilt when they change. The persisted index is stored with a
+ * key of the settings and the modification times of the configuration files, and is dropped by
+ * the startup scan when they changed in the meantime.
+ *
+ * The index maps includers to their sources and derives the reverse graph (source → includers)
+ * from it, which the manager merges with sourceToDocuments in getIncluders.
+ */
+export class IncludeIndex implements vscode.Disposable {
+  private static readonly STORAGE_KEY = "virtualInclude.includeIndex";
+  private static readonly STORAGE_VERSION = 2;
+  private static readonly SAVE_DELAY = 1000;
+
+  // Includer URI → modification time and resolved sources
+  private _entries: Map<string, IndexEntry> = new Map();
+  // Resolved source path → includer URIs
+  private _includers: Map<string, Set<string>> = new Map();
+
+  private _storage: vscode.Memento | undefined;
+  // Key of the settings and configuration files the index was built with
+  private _configKey = "";
+  private _saveTimeout: NodeJS.Timeout | undefined;
+  private _disposables: vscode.Disposable[] = [];
+  private _ready: Promise<void> = Promise.resolve();
+  private _onDidChange: vscode.EventEmitter<void> =
+    new vscode.EventEmitter<void>();
+
+  // Fires after a batch of changes to the index
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  /**
+   * Restores the persisted index, starts the background scan of the workspace and watches
+   * for file changes.
+   *
+   * @param storage The workspace storage to persist the index in
+   */
+  public initialize(storage: vscode.Memento): void {
+    this._storage = storage;
+    const restoredKey = this._restore();
+    this._registerWatchers();
+
+    this._ready = this._getConfigKey()
+      .then((configKey) => {
+        this._configKey = configKey;
+        // The sources of an index built with other settings may resolve differently
+        if (restoredKey !== configKey) {
+          this._clear();
+        }
+        return this.rebuild();
+      })
+      .catch((error) => {
+        console.error(`Error indexing workspace includes: ${error}`);
+      });
+  }
+
+  /**
+   * Forgets all indexed files and scans the workspace again, e.g. after the settings or a
+   * configuration file changed, since the sources were resolved with the old ones.
+   *
+   * @returns Promise<void> Resolves when the workspace has been scanned again
+   */
+  public invalidate(): Promise<void> {
+    this._ready = this._ready
+      .then(async () => {
+        this._configKey = await this._getConfigKey();
+        this._clear();
+        await this.rebuild();
+      })
+      .catch((error) => {
+        console.error(`Error re-indexing workspace includes: ${error}`);
+      });
+    return this._ready;
+  }
+
+  /**
+   * Resolves when the initial scan of the workspace has finished.
+   *
+   * @returns Promise<void>
+   */
+  public whenReady(): Promise<void> {
+    return this._ready;
+  }
+
+  /**
+   * Gets the URIs of all indexed files that include a source file or glob pattern.
+   *
+   * @param sourcePath The resolved path of the source file
+   * @returns Set<string>
+   */
+  public getIncluders(sourcePath: string): Set<string> {
+    return new Set(this._includers.get(sourcePath) ?? []);
+  }
+
+  /**
+   * Gets the URIs of all indexed files that include something.
+   *
+   * @returns string[]
+   */
+  public getIncludingFiles(): string[] {
+    return [...this._entries]
+      .filter(([, entry]) => entry.sources.length > 0)
+      .map(([uri]) => uri);
+  }
+
+  /**
+   * Gets the resolved paths (or glob patterns) of all indexed sources.
+   *
+   * @returns string[]
+   */
+  public getIncludedSources(): string[] {
+    return [...this._includers.keys()];
+  }
+
+  /**
+   * Gets the resolved sources included by an indexed file.
+   *
+   * @param uri
+   * @returns string[]
+   */
+  public getSources(uri: vscode.Uri): string[] {
+    return [...(this._entries.get(uri.toString())?.sources ?? [])];
+  }
+
+  /**
+   * Scans the workspace and brings the index up to date:
+   *
+   * 1. Finds all files matching the workspace globs
+   * 2. Re-indexes the files that are new or were modified since they were last indexed
+   * 3. Removes the files that no longer exist
+   * 4. Persists the result
+   *
+   * @returns Promise<void>
+   */
+  public async rebuild(): Promise<void> {
+    const { include, exclude } = Constants.getWorkspaceGlobs();
+    const files = await vscode.workspace.findFiles(include, exclude);
+    const found = new Set(files.map((uri) => uri.toString()));
+    let reindexed = 0;
+
+    for (const uri of files) {
+      try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (this._entries.get(uri.toString())?.mtime !== stat.mtime) {
+          await this._indexFile(uri, stat.mtime);
+          reindexed++;
+        }
+      } catch (error) {
+        console.error(`Error indexing ${uri}: ${error}`);
+      }
+    }
+
+    for (const key of [...this._entries.keys()]) {
+      if (!found.has(key)) {
+        this._setEntry(key, undefined);
+      }
+    }
+
+    console.log(
+      `Indexed includes of ${files.length} files (${reindexed} re-read)`,
+    );
+    this._scheduleSave();
+  }
+
+  /**
+   * Updates the index entry of a file from its content.
+   *
+   * @param uri
+   * @param text
+   * @param languageId
+   * @param mtime The modification time the content was read at
+   */
+  public indexText(
+    uri: vscode.Uri,
+    text: string,
+    languageId: string,
+    mtime: number = 0,
+  ): void {
+    // Files without directives are indexed too, so unchanged files are not re-read next time
+    const sources = text.includes("virtualInclude")
+      ? new IncludeEngine(Constants.getIncludeConfig(uri.fsPath))
+          .findDirectives(text, uri.fsPath, languageId)
+          .filter((directive) => !directive.isSelfInclude)
+          .map((directive) => directive.resolvedPath)
+      : [];
+
+    this._setEntry(uri.toString(), {
+      mtime,
+      sources: [...new Set(sources)],
+    });
+  }
+
+  /**
+   * Removes a file from the index.
+   *
+   * @param uri
+   */
+  public remove(uri: vscode.Uri): void {
+    this._setEntry(uri.toString(), undefined);
+    this._scheduleSave();
+  }
+
+  /**
+   * Reads a file and updates its index entry. Open documents are read from the editor, so their
+   * language mode is used.
+   *
+   * @param uri
+   * @param mtime
+   * @returns Promise<void>
+   */
+  private async _indexFile(uri: vscode.Uri, mtime?: number): Promise<void> {
+    if (mtime === undefined) {
+      mtime = (await vscode.workspace.fs.stat(uri)).mtime;
+    }
+
+    const openDocument = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString(),
+    );
+    if (openDocument) {
+      // Unsaved changes don't match the file on disk, so it has to be re-read next time
+      this.indexText(
+        uri,
+        openDocument.getText(),
+        openDocument.languageId,
+        openDocument.isDirty ? 0 : mtime,
+      );
+      return;
+    }
+
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+      "utf8",
+    );
+    const languageId =
+      LanguageService.getFileLanguage(uri.fsPath) || "plaintext";
+    this.indexText(uri, text, languageId, mtime);
+  }
+
+  /**
+   * Replaces the entry of a file and updates the reverse graph accordingly.
+   *
+   * @param key The URI of the file
+   * @param entry The new entry, or undefined to remove the file
+   */
+  private _setEntry(key: string, entry: IndexEntry | undefined): void {
+    for (const source of this._entries.get(key)?.sources ?? []) {
+      const includers = this._includers.get(source);
+      includers?.delete(key);
+      if (includers?.size === 0) {
+        this._includers.delete(source);
+      }
+    }
+
+    if (!entry) {
+      this._entries.delete(key);
+      return;
+    }
+
+    this._entries.set(key, entry);
+    for (const source of entry.sources) {
+      if (!this._includers.has(source)) {
+        this._includers.set(source, new Set<string>());
+      }
+      this._includers.get(source)!.add(key);
+    }
+  }
+
+  /**
+   * Watches the workspace for created, changed, deleted and renamed files.
+   */
+  private _registerWatchers(): void {
+    const { include } = Constants.getWorkspaceGlobs();
+    const watcher = vscode.workspace.createFileSystemWatcher(include);
+    const onConfigurationChange = vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration(Constants.CONFIG_SECTION)) {
+          this.invalidate();
+        }
+      },
+    );
+
+    const onFileChange = async (uri: vscode.Uri) => {
+      if (!this._isIndexed(uri)) {
+        return;
+      }
+
+      try {
+        await this._indexFile(uri);
+        this._scheduleSave();
+      } catch (error) {
+        console.error(`Error re-indexing ${uri}: ${error}`);
+      }
+    };
+
+    watcher.onDidCreate(onFileChange);
+    watcher.onDidChange(onFileChange);
+    watcher.onDidDelete((uri) => this.remove(uri));
+
+    // Renamed files move their entry, renamed folders need a rescan to find their files
+    const onRename = vscode.workspace.onDidRenameFiles(async (e) => {
+      let folderRenamed = false;
+
+      for (const file of e.files) {
+        const prefix = file.oldUri.toString();
+        for (const key of [...this._entries.keys()]) {
+          if (key === prefix || key.startsWith(prefix + "/")) {
+            this._setEntry(key, undefined);
+          }
+        }
+
+        try {
+          const stat = await vscode.workspace.fs.stat(file.newUri);
+          if (stat.type & vscode.FileType.Directory) {
+            folderRenamed = true;
+          } else if (this._isIndexed(file.newUri)) {
+            await this._indexFile(file.newUri, stat.mtime);
+          }
+        } catch (error) {
+          console.error(`Error re-indexing ${file.newUri}: ${error}`);
+        }
+      }
+
+      if (folderRenamed) {
+        await this.rebuild();
+      } else {
+        this._scheduleSave();
+      }
+    });
+
+    this._disposables.push(watcher, onConfigurationChange, onRename);
+  }
+
+  /**
+   * Checks if a file belongs in the index, i.e. it is not excluded by the workspace globs.
+   *
+   * @param uri
+   * @returns bool
+   */
+  private _isIndexed(uri: vscode.Uri): boolean {
+    const { exclude } = Constants.getWorkspaceGlobs();
+    return (
+      uri.scheme === "file" &&
+      vscode.languages.match({ pattern: exclude }, {
+        uri,
+        languageId: "",
+      } as vscode.TextDocument) === 0
+    );
+  }
+
+  /**
+   * Restores the index persisted by a previous session, ignoring data of other versions.
+   *
+   * @returns string|undefined The key of the settings the restored index was built with
+   */
+  private _restore(): string | undefined {
+    const stored = this._storage?.get<StoredIndex>(IncludeIndex.STORAGE_KEY);
+    if (stored?.version !== IncludeIndex.STORAGE_VERSION) {
+      return undefined;
+    }
+
+    for (const [key, entry] of Object.entries(stored.files)) {
+      this._setEntry(key, entry);
+    }
+    console.log(`Restored include index of ${this._entries.size} files`);
+    return stored.configKey;
+  }
+
+  /**
+   * Forgets all indexed files.
+   */
+  private _clear(): void {
+    for (const key of [...this._entries.keys()]) {
+      this._setEntry(key, undefined);
+    }
+  }
+
+  /**
+   * Calculates the key of the settings and the configuration files of the workspace.
+   *
+   * @returns Promise<string>
+   */
+  private async _getConfigKey(): Promise<string> {
+    const { exclude } = Constants.getWorkspaceGlobs();
+    const configFiles = await vscode.workspace.findFiles(
+      `**/{${ConfigFiles.FILE_NAMES.join(",")}}`,
+      exclude,
+    );
+    const versions = await Promise.all(
+      configFiles.map(
+        async (uri) =>
+          `${uri.toString()}@${(await vscode.workspace.fs.stat(uri)).mtime}`,
+      ),
+    );
+
+    return DirectiveSyntax.hashContent(
+      JSON.stringify([Constants.getIncludeConfig(), versions.sort()]),
+    );
+  }
+
+  /**
+   * Announces a batch of changes and persists the index after a short delay, batching bursts of
+   * changes.
+   */
+  private _scheduleSave(): void {
+    this._onDidChange.fire();
+    if (!this._storage) {
+      return;
+    }
+
+    clearTimeout(this._saveTimeout);
+    this._saveTimeout = setTimeout(() => {
+      const stored: StoredIndex = {
+        version: IncludeIndex.STORAGE_VERSION,
+        configKey: this._configKey,
+        files: Object.fromEntries(this._entries),
+      };
+      this._storage!.update(IncludeIndex.STORAGE_KEY, stored);
+    }, IncludeIndex.SAVE_DELAY);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    clearTimeout(this._saveTimeout);
+    for (const disposable of this._disposables) {
+      disposable.dispose();
+    }
+    this._disposables = [];
+    this._onDidChange.dispose();
+    this._entries.clear();
+    this._includers.clear();
+  }
+}
+
+/**
+ * This interface defines the indexed state of a single file.
+ */
+interface IndexEntry {
+  mtime: number;
+  sources: string[];
+}
+
+/**
+ * This interface defines the index as persisted in workspace storage.
+ */
+interface StoredIndex {
+  version: number;
+  configKey: string;
+  files: Record<string, IndexEntry>;
+}
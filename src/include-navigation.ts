@@ -0,0 +1,407 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { Constants } from "./constants";
+import { LanguageService } from "./language-service";
+import { SymbolResolver } from "./symbol-resolver";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import {
+  ContentExtractor,
+  GlobInclude,
+  IncludeDirective,
+  IncludeEngine,
+  IncludeSelectors,
+  LineRange,
+  NODE_INCLUDE_HOST,
+  PathResolver,
+} from "./core";
+
+/**
+ * The include-navigation module makes include directives navigable: the quoted path of every
+ * directive becomes a clickable link, and "Go to Definition" (F12 / Ctrl+Click) jumps to the
+ * included file. The code lens and the "Open included file" command share the same logic.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * - IncludeNavigation finds the directives of a document with the IncludeEngine, so links,
+ *   definitions and code lenses match exactly the directives that are expanded
+ * - It resolves a directive to the locations it includes: the included file, or every file
+ *   matching a glob include
+ * - Selectors are honored: the location covers the selected region, line range or symbol
+ *   (resolved through the document symbol provider), so the target opens scrolled to it
+ * - The DocumentLinkProvider links the quoted path to the "Open included file" command, which
+ *   lets the user pick one of the files of a glob include
+ * - The DefinitionProvider returns the locations directly, so VSCode peeks at multiple files
+ * - The ReferenceProvider goes the other way, from a source file to the directives including it
+ */
+export class IncludeNavigation {
+  /**
+   * Finds all include directives of a document.
+   *
+   * @param document
+   * @returns IncludeDirective[]
+   */
+  public static findDirectives(
+    document: vscode.TextDocument,
+  ): IncludeDirective[] {
+    return new IncludeEngine(
+      Constants.getIncludeConfig(document.uri.fsPath),
+    ).findDirectives(
+      document.getText(),
+      document.uri.fsPath,
+      document.languageId,
+    );
+  }
+
+  /**
+   * Gets the range of the quoted path of a directive, without the quotes.
+   *
+   * @param directive
+   * @returns vscode.Range
+   */
+  public static getPathRange(directive: IncludeDirective): vscode.Range {
+    const quoted = new RegExp(
+      `["']${IncludeNavigation._escapeRegExp(directive.includePath)}["']`,
+    );
+    const match = quoted.exec(directive.text.substring(directive.range.start));
+    const start = directive.range.start + (match ? match.index + 1 : 0);
+    const end = match
+      ? start + directive.includePath.length
+      : directive.range.end;
+
+    return new vscode.Range(directive.line, start, directive.line, end);
+  }
+
+  /**
+   * Resolves the locations a directive includes, covering the lines its selectors select.
+   *
+   * @param documentUri The URI of the document containing the include
+   * @param selectors The path and selectors of the directive
+   * @param languageId The language of the document, used when the source language is unknown
+   * @returns Promise<vscode.Location[]> Empty if the included file doesn't exist
+   */
+  public static async resolveLocations(
+    documentUri: vscode.Uri,
+    selectors: IncludeSelectors,
+    languageId: string = "plaintext",
+  ): Promise<vscode.Location[]> {
+    const resolvedPath = new IncludeEngine(
+      Constants.getIncludeConfig(documentUri.fsPath),
+    ).resolvePath(documentUri.fsPath, selectors.includePath);
+    const sourcePaths = GlobInclude.isGlobPattern(resolvedPath)
+      ? GlobInclude.findMatches(resolvedPath)
+      : [resolvedPath].filter((sourcePath) => fs.existsSync(sourcePath));
+
+    const locations: vscode.Location[] = [];
+    for (const sourcePath of sourcePaths) {
+      const uri = vscode.Uri.file(sourcePath);
+      const lines = await IncludeNavigation._locateSelection(
+        uri,
+        selectors,
+        languageId,
+      );
+
+      locations.push(
+        new vscode.Location(
+          uri,
+          lines
+            ? new vscode.Range(
+                lines.start - 1,
+                0,
+                (lines.end ?? lines.start) - 1,
+                0,
+              )
+            : new vscode.Position(0, 0),
+        ),
+      );
+    }
+
+    return locations;
+  }
+
+  /**
+   * Locates the lines the selectors select in a source file.
+   *
+   * @param uri The source file
+   * @param selectors
+   * @param languageId
+   * @returns Promise<LineRange|null> null for the whole file
+   */
+  private static async _locateSelection(
+    uri: vscode.Uri,
+    selectors: IncludeSelectors,
+    languageId: string,
+  ): Promise<LineRange | null> {
+    if (!selectors.region && !selectors.lineRange && !selectors.symbolPath) {
+      return null;
+    }
+
+    const symbolRange = selectors.symbolPath
+      ? await SymbolResolver.findSymbolRange(uri, selectors.symbolPath)
+      : null;
+    const engine = new IncludeEngine(Constants.getIncludeConfig(uri.fsPath), {
+      ...NODE_INCLUDE_HOST,
+      resolveSymbol: () =>
+        symbolRange
+          ? { start: symbolRange.start.line + 1, end: symbolRange.end.line + 1 }
+          : null,
+    });
+
+    return engine.locate(
+      fs.readFileSync(uri.fsPath, "utf8"),
+      selectors,
+      uri.fsPath,
+      languageId,
+    );
+  }
+
+  /**
+   * Escapes special characters for use in regex patterns.
+   *
+   * @param string
+   * @returns string
+   */
+  private static _escapeRegExp(string: string): string {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+/**
+ * The DocumentLinkProvider class makes the quoted path of every include directive clickable.
+ */
+export class VirtualIncludeDocumentLinkProvider
+  implements vscode.DocumentLinkProvider
+{
+  /**
+   * Provides a link for the path of every include directive. The links run the
+   * "Open included file" command, which honors the selectors of the directive.
+   *
+   * @param document
+   * @returns vscode.DocumentLink[]
+   */
+  public provideDocumentLinks(
+    document: vscode.TextDocument,
+  ): vscode.DocumentLink[] {
+    return IncludeNavigation.findDirectives(document).map((directive) => {
+      const args = [
+        document.uri.toString(),
+        directive.includePath,
+        directive.symbolPath,
+        directive.lineRange,
+      ];
+      const link = new vscode.DocumentLink(
+        IncludeNavigation.getPathRange(directive),
+        vscode.Uri.parse(
+          `command:virtualInclude.openIncludedFile?${encodeURIComponent(JSON.stringify(args))}`,
+        ),
+      );
+      link.tooltip = "Open included file";
+      return link;
+    });
+  }
+}
+
+/**
+ * The DefinitionProvider class lets "Go to Definition" jump from an include path to the
+ * included file(s).
+ */
+export class VirtualIncludeDefinitionProvider
+  implements vscode.DefinitionProvider
+{
+  /**
+   * Provides the included locations when the position is on the path of a directive.
+   *
+   * @param document
+   * @param position
+   * @returns Promise<vscode.Location[]|undefined>
+   */
+  public async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Location[] | undefined> {
+    const directive = IncludeNavigation.findDirectives(document).find(
+      (d) =>
+        d.line === position.line &&
+        IncludeNavigation.getPathRange(d).contains(position),
+    );
+    if (!directive) {
+      return undefined;
+    }
+
+    return IncludeNavigation.resolveLocations(
+      document.uri,
+      directive,
+      document.languageId,
+    );
+  }
+}
+
+/**
+ * The ReferenceProvider class lets "Find All References" list the include directives of a source
+ * file throughout the workspace, including files that are not open.
+ *
+ * - In a source file, it lists the directives that include the file. Inside a region that is
+ *   included by name, only the directives including that region are listed; anywhere else the
+ *   result is per file and lists every directive, whatever it selects
+ * - On a directive, it lists every other directive that includes the same source
+ *
+ * The including files are looked up with VirtualIncludeManager.getIncluders, which is backed by
+ * the workspace include index, and are then scanned for their directives. A source file is also
+ * referenced by the glob includes whose pattern matches it.
+ */
+export class VirtualIncludeReferenceProvider
+  implements vscode.ReferenceProvider
+{
+  constructor(private _manager: VirtualIncludeManager) {}
+
+  /**
+   * Provides the directives that include the source, or the included region, at the position
+   *
+   * @param document
+   * @param position
+   * @returns Promise<vscode.Location[]>
+   */
+  public async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Location[]> {
+    const directive = IncludeNavigation.findDirectives(document).find(
+      (d) => d.line === position.line && !d.isSelfInclude,
+    );
+    const sourcePath = directive?.resolvedPath ?? document.uri.fsPath;
+
+    // Make sure closed files are known before relying on the index
+    await this._manager.includeIndex.whenReady();
+
+    // Glob includes are indexed by their pattern, so the patterns matching the source are
+    // looked up as well
+    const patterns = GlobInclude.isGlobPattern(sourcePath)
+      ? []
+      : [...this._manager.getIncludedSources()].filter(
+          (source) =>
+            GlobInclude.isGlobPattern(source) &&
+            GlobInclude.findMatches(source).some((match) =>
+              PathResolver.isSamePath(match, sourcePath),
+            ),
+        );
+    const includers = new Set(this._manager.getIncluders(sourcePath));
+    for (const pattern of patterns) {
+      for (const includer of this._manager.getIncluders(pattern)) {
+        includers.add(includer);
+      }
+    }
+
+    const references: { uri: vscode.Uri; directive: IncludeDirective }[] = [];
+    for (const includer of includers) {
+      const uri = vscode.Uri.parse(includer);
+      try {
+        for (const d of await this._findDirectives(uri)) {
+          const isOrigin =
+            uri.toString() === document.uri.toString() &&
+            d.line === directive?.line;
+          const includesSource = [sourcePath, ...patterns].some((source) =>
+            PathResolver.isSamePath(d.resolvedPath, source),
+          );
+          if (!isOrigin && includesSource) {
+            references.push({ uri, directive: d });
+          }
+        }
+      } catch (error) {
+        console.error(`Error finding includes in ${includer}: ${error}`);
+      }
+    }
+
+    // In a source file, narrow the references down to the included region under the cursor
+    const region = directive
+      ? null
+      : this._findRegionAt(
+          document,
+          position,
+          references
+            .map((reference) => reference.directive.region)
+            .filter((name): name is string => name !== null),
+        );
+
+    return references
+      .filter((reference) => !region || reference.directive.region === region)
+      .map(
+        (reference) =>
+          new vscode.Location(
+            reference.uri,
+            IncludeNavigation.getPathRange(reference.directive),
+          ),
+      );
+  }
+
+  /**
+   * Finds the innermost of the given regions of a source file that contains the position,
+   * counting its marker lines.
+   *
+   * @param document The source file
+   * @param position
+   * @param regions The names of the regions that are included
+   * @returns string|null null when the position is outside all of them
+   */
+  private _findRegionAt(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    regions: string[],
+  ): string | null {
+    const rules = LanguageService.getRules(document.uri.fsPath);
+    const commentStyle = rules.getCommentStyleForFile(
+      document.uri.fsPath,
+      document.languageId,
+    );
+    const markers = {
+      start: rules.config.regionStartMarker,
+      end: rules.config.regionEndMarker,
+    };
+    const line = position.line + 1;
+
+    let innermost: { name: string; size: number } | null = null;
+    for (const name of new Set(regions)) {
+      const range = ContentExtractor.findRegion(
+        document.getText(),
+        name,
+        commentStyle,
+        markers,
+      );
+      const end = range?.end ?? Infinity;
+      if (
+        range &&
+        line >= range.start - 1 &&
+        line <= end + 1 &&
+        (!innermost || end - range.start < innermost.size)
+      ) {
+        innermost = { name, size: end - range.start };
+      }
+    }
+
+    return innermost?.name ?? null;
+  }
+
+  /**
+   * Finds the include directives of a file, reading it from the editor when it is open.
+   *
+   * @param uri
+   * @returns Promise<IncludeDirective[]>
+   */
+  private async _findDirectives(uri: vscode.Uri): Promise<IncludeDirective[]> {
+    const openDocument = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString(),
+    );
+    if (openDocument) {
+      return IncludeNavigation.findDirectives(openDocument);
+    }
+
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+      "utf8",
+    );
+    return new IncludeEngine(
+      Constants.getIncludeConfig(uri.fsPath),
+    ).findDirectives(
+      text,
+      uri.fsPath,
+      LanguageService.getFileLanguage(uri.fsPath) || "plaintext",
+    );
+  }
+}
@@ -0,0 +1,483 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import { GlobInclude, IncludeResult, IncludeStatus } from "./core";
+
+/**
+ * The include-tree module shows the include graph of the workspace in a tree view in the Explorer,
+ * so it is visible at a glance which files include which sources and which includes need
+ * attention.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * The tree has two modes, switched from the title bar of the view:
+ *
+ * - Documents: the including files at the top level, each expanding to the sources it includes
+ * - Sources: the included sources at the top level, each expanding to the files including it
+ *
+ * The files and sources come from VirtualIncludeManager.getIncludingFiles and getIncludedSources,
+ * which combine the documents processed in this session (documentIncludes and sourceToDocuments)
+ * with the workspace include index, so closed files are shown too.
+ *
+ * Every node shows whether its includes are up to date, out of date or missing. The statuses are
+ * found by processing the including files with the IncludeEngine, without applying anything. The
+ * tree is redrawn whenever a document is processed or the include index changes, so the results
+ * are cached with the version of the including file and the modification times of its sources,
+ * and only the files that changed (or whose sources changed) are processed again. The refresh
+ * command of the view forgets all cached results.
+ *
+ * The context menu of a node opens the file, updates its includes or reveals it in the Explorer.
+ */
+export class IncludeTreeProvider
+  implements vscode.TreeDataProvider<IncludeTreeNode>, vscode.Disposable
+{
+  private static readonly STATUS_LABELS: Record<IncludeTreeStatus, string> = {
+    upToDate: "Up to date",
+    stale: "Out of date",
+    missing: "Missing",
+  };
+
+  private static readonly STATUS_ICONS: Record<
+    IncludeTreeStatus,
+    vscode.ThemeIcon
+  > = {
+    upToDate: new vscode.ThemeIcon(
+      "pass",
+      new vscode.ThemeColor("testing.iconPassed"),
+    ),
+    stale: new vscode.ThemeIcon(
+      "sync",
+      new vscode.ThemeColor("list.warningForeground"),
+    ),
+    missing: new vscode.ThemeIcon(
+      "error",
+      new vscode.ThemeColor("list.errorForeground"),
+    ),
+  };
+
+  private _onDidChangeTreeData: vscode.EventEmitter<void> =
+    new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData: vscode.Event<void> =
+    this._onDidChangeTreeData.event;
+
+  private _mode: IncludeTreeMode = "documents";
+  // Including file URI → results of processing it, with the version they were found at
+  private _includes: Map<string, Promise<CachedIncludes>> = new Map();
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor(private _manager: VirtualIncludeManager) {
+    this._disposables.push(
+      this._manager.onDidProcessDocument(() =>
+        this._onDidChangeTreeData.fire(),
+      ),
+      this._manager.includeIndex.onDidChange(() =>
+        this._onDidChangeTreeData.fire(),
+      ),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("virtualInclude")) {
+          this.refresh();
+        }
+      }),
+    );
+  }
+
+  get mode(): IncludeTreeMode {
+    return this._mode;
+  }
+
+  /**
+   * Switches between listing documents and listing sources at the top level.
+   */
+  public toggleMode(): void {
+    this._mode = this._mode === "documents" ? "sources" : "documents";
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Forgets the cached statuses and redraws the tree.
+   */
+  public refresh(): void {
+    this._includes.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Opens the file of a node in an editor.
+   *
+   * @param node
+   * @returns Promise<void>
+   */
+  public async open(node: IncludeTreeNode): Promise<void> {
+    await vscode.window.showTextDocument(vscode.Uri.file(node.path));
+  }
+
+  /**
+   * Updates the includes of a node: of the file itself for an including file, or of all files
+   * including it for a source. The files are updated by the WorkspaceProcessor, so no editors
+   * are opened for them.
+   *
+   * @param node
+   * @returns Promise<void>
+   */
+  public async update(node: IncludeTreeNode): Promise<void> {
+    const uris = node.uri
+      ? [node.uri]
+      : [...this._manager.getIncluders(node.path)];
+
+    await this._manager.workspaceProcessor.processFiles(
+      uris.map((uri) => vscode.Uri.parse(uri)),
+    );
+  }
+
+  /**
+   * Reveals the file of a node in the Explorer.
+   *
+   * @param node
+   * @returns Promise<void>
+   */
+  public async reveal(node: IncludeTreeNode): Promise<void> {
+    await vscode.commands.executeCommand(
+      "revealInExplorer",
+      vscode.Uri.file(node.path),
+    );
+  }
+
+  /**
+   * Creates the tree item of a node, with its status as icon.
+   *
+   * @param node
+   * @returns vscode.TreeItem
+   */
+  public getTreeItem(node: IncludeTreeNode): vscode.TreeItem {
+    const isGlob = GlobInclude.isGlobPattern(node.path);
+    const item = new vscode.TreeItem(
+      path.basename(node.path),
+      node.isParent
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+    );
+
+    item.description = vscode.workspace.asRelativePath(path.dirname(node.path));
+    item.tooltip = `${node.path}\n${IncludeTreeProvider.STATUS_LABELS[node.status]}`;
+    item.iconPath = IncludeTreeProvider.STATUS_ICONS[node.status];
+    item.contextValue = isGlob ? "virtualInclude.glob" : "virtualInclude.file";
+
+    if (!isGlob) {
+      item.resourceUri = vscode.Uri.file(node.path);
+      item.command = {
+        title: "Open",
+        command: "virtualInclude.includeTree.open",
+        arguments: [node],
+      };
+    }
+
+    return item;
+  }
+
+  /**
+   * Gets the nodes at the top level or below a node:
+   *
+   * 1. Documents mode: the including files, and below each of them its sources
+   * 2. Sources mode: the sources, and below each of them the files including it
+   *
+   * @param node The parent node, or undefined for the top level
+   * @returns Promise<IncludeTreeNode[]>
+   */
+  public async getChildren(node?: IncludeTreeNode): Promise<IncludeTreeNode[]> {
+    if (!node) {
+      return this._mode === "documents"
+        ? this._getDocumentNodes()
+        : this._getSourceNodes();
+    }
+
+    if (this._mode === "documents") {
+      return this._getSourcesOf(node.uri!);
+    }
+    return this._getIncludersOf(node.path);
+  }
+
+  /**
+   * Gets the including files, each with the worst status of its includes.
+   *
+   * @returns Promise<IncludeTreeNode[]>
+   */
+  private async _getDocumentNodes(): Promise<IncludeTreeNode[]> {
+    const nodes: IncludeTreeNode[] = [];
+
+    for (const uri of this._manager.getIncludingFiles()) {
+      const includes = await this._getIncludes(uri);
+      if (includes.length === 0) {
+        continue;
+      }
+
+      nodes.push({
+        path: vscode.Uri.parse(uri).fsPath,
+        uri,
+        isParent: true,
+        status: this._worstStatus(includes.map((include) => include.status)),
+      });
+    }
+
+    return this._sort(nodes);
+  }
+
+  /**
+   * Gets the sources, each with the worst status of the includes of it.
+   *
+   * @returns Promise<IncludeTreeNode[]>
+   */
+  private async _getSourceNodes(): Promise<IncludeTreeNode[]> {
+    const nodes: IncludeTreeNode[] = [];
+
+    for (const sourcePath of this._manager.getIncludedSources()) {
+      const includers = await this._getIncludersOf(sourcePath);
+      if (includers.length === 0) {
+        continue;
+      }
+
+      const exists =
+        GlobInclude.isGlobPattern(sourcePath) || fs.existsSync(sourcePath);
+      nodes.push({
+        path: sourcePath,
+        isParent: true,
+        status: exists
+          ? this._worstStatus(includers.map((includer) => includer.status))
+          : "missing",
+      });
+    }
+
+    return this._sort(nodes);
+  }
+
+  /**
+   * Gets the sources included by a file.
+   *
+   * @param uri The URI of the including file
+   * @returns Promise<IncludeTreeNode[]>
+   */
+  private async _getSourcesOf(uri: string): Promise<IncludeTreeNode[]> {
+    const statuses = new Map<string, IncludeStatus[]>();
+    for (const include of await this._getIncludes(uri)) {
+      const { resolvedPath } = include.directive;
+      statuses.set(resolvedPath, [
+        ...(statuses.get(resolvedPath) ?? []),
+        include.status,
+      ]);
+    }
+
+    return this._sort(
+      [...statuses].map(([sourcePath, sourceStatuses]) => ({
+        path: sourcePath,
+        isParent: false,
+        status: this._worstStatus(sourceStatuses),
+      })),
+    );
+  }
+
+  /**
+   * Gets the files including a source, with the status of their includes of it.
+   *
+   * @param sourcePath The resolved path (or glob pattern) of the source
+   * @returns Promise<IncludeTreeNode[]>
+   */
+  private async _getIncludersOf(
+    sourcePath: string,
+  ): Promise<IncludeTreeNode[]> {
+    const nodes: IncludeTreeNode[] = [];
+
+    for (const uri of this._manager.getIncluders(sourcePath)) {
+      const statuses = (await this._getIncludes(uri))
+        .filter((include) => include.directive.resolvedPath === sourcePath)
+        .map((include) => include.status);
+      if (statuses.length === 0) {
+        continue;
+      }
+
+      nodes.push({
+        path: vscode.Uri.parse(uri).fsPath,
+        uri,
+        isParent: false,
+        status: this._worstStatus(statuses),
+      });
+    }
+
+    return this._sort(nodes);
+  }
+
+  /**
+   * Gets the includes of an including file and their statuses, processing the file again only
+   * if it or one of its sources changed since it was last processed.
+   *
+   * @param uri
+   * @returns Promise<IncludeResult[]>
+   */
+  private async _getIncludes(uri: string): Promise<IncludeResult[]> {
+    const cached = await this._includes.get(uri);
+    if (cached && cached.version === this._getVersion(uri, cached.sources)) {
+      return cached.includes;
+    }
+
+    const processed = this._processIncludes(uri);
+    this._includes.set(uri, processed);
+    return (await processed).includes;
+  }
+
+  /**
+   * Processes an including file (without applying anything) to find its includes and their
+   * statuses. Files that can't be read have no includes.
+   *
+   * @param uri
+   * @returns Promise<CachedIncludes>
+   */
+  private async _processIncludes(uri: string): Promise<CachedIncludes> {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.parse(uri),
+      );
+      const engine =
+        await this._manager.documentProcessor.createEngine(document);
+      const includes = engine.process(
+        document.getText(),
+        document.uri.fsPath,
+        document.languageId,
+      ).includes;
+      const sources = [
+        ...new Set(includes.map((include) => include.directive.resolvedPath)),
+      ];
+
+      return { includes, sources, version: this._getVersion(uri, sources) };
+    } catch (error) {
+      console.error(`Error reading includes of ${uri}: ${error}`);
+      return { includes: [], sources: [], version: "" };
+    }
+  }
+
+  /**
+   * Gets the version of an including file and its sources, which changes whenever the statuses
+   * of its includes may change: the document version of an open file or the modification time of
+   * a closed one, and the modification times of the sources (or the files matching a glob).
+   *
+   * @param uri
+   * @param sources The resolved paths (or glob patterns) of the sources
+   * @returns string
+   */
+  private _getVersion(uri: string, sources: string[]): string {
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri,
+    );
+    const versions = [
+      document
+        ? `#${document.version}`
+        : `${this._getModificationTime(vscode.Uri.parse(uri).fsPath)}`,
+    ];
+
+    for (const source of sources) {
+      const files = GlobInclude.isGlobPattern(source)
+        ? GlobInclude.findMatches(source)
+        : [source];
+      versions.push(
+        ...files.map((file) => `${file}@${this._getModificationTime(file)}`),
+      );
+    }
+
+    return versions.join("\n");
+  }
+
+  /**
+   * Gets the modification time of a file.
+   *
+   * @param filePath
+   * @returns number -1 if the file doesn't exist
+   */
+  private _getModificationTime(filePath: string): number {
+    try {
+      return fs.statSync(filePath).mtimeMs;
+    } catch {
+      return -1;
+    }
+  }
+
+  /**
+   * Reduces the statuses of includes to the one that needs the most attention.
+   *
+   * @param statuses
+   * @returns IncludeTreeStatus
+   */
+  private _worstStatus(statuses: IncludeStatus[]): IncludeTreeStatus {
+    const treeStatuses = statuses.map((status): IncludeTreeStatus => {
+      switch (status) {
+        case "upToDate":
+          return "upToDate";
+        case "missing":
+        case "invalidSelection":
+        case "selfInclude":
+          return "missing";
+        default:
+          return "stale";
+      }
+    });
+
+    if (treeStatuses.includes("missing")) {
+      return "missing";
+    }
+    return treeStatuses.includes("stale") ? "stale" : "upToDate";
+  }
+
+  /**
+   * Sorts nodes by their path relative to the workspace.
+   *
+   * @param nodes
+   * @returns IncludeTreeNode[]
+   */
+  private _sort(nodes: IncludeTreeNode[]): IncludeTreeNode[] {
+    return nodes.sort((a, b) =>
+      vscode.workspace
+        .asRelativePath(a.path)
+        .localeCompare(vscode.workspace.asRelativePath(b.path)),
+    );
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    for (const disposable of this._disposables) {
+      disposable.dispose();
+    }
+    this._disposables = [];
+    this._includes.clear();
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+/**
+ * The top level of the include tree: including documents or included sources.
+ */
+export type IncludeTreeMode = "documents" | "sources";
+
+/**
+ * The status of a node, summarizing the statuses of its includes.
+ */
+export type IncludeTreeStatus = "upToDate" | "stale" | "missing";
+
+/**
+ * This interface defines a node of the include tree: an including file (with its URI) or an
+ * included source (a file or glob pattern).
+ */
+export interface IncludeTreeNode {
+  path: string;
+  uri?: string;
+  isParent: boolean;
+  status: IncludeTreeStatus;
+}
+
+/**
+ * This interface defines the cached includes of an including file, with the version of the file
+ * and its sources they were found at.
+ */
+interface CachedIncludes {
+  includes: IncludeResult[];
+  sources: string[];
+  version: string;
+}
@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { CommentStyle, LanguageRules, parseJsonWithComments } from "./core";
+
+/**
+ * The LanguageConfigurations class reads the comment syntax of every language that VSCode knows
+ * from the language extensions that are installed, so includes get proper markers in TOML,
+ * Dockerfiles, Makefiles, Haskell, SCSS, Terraform and any other language with an extension.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * The first time the settings are needed, the class goes through the "languages" contributed by
+ * all extensions (including the built-in ones) and:
+ *
+ * - Reads the language-configuration.json of each language, which may contain comments and
+ *   trailing commas, and turns its comments.lineComment or comments.blockComment into a comment
+ *   style (see LanguageRules.commentStyleFromConfiguration)
+ * - Collects the file extensions and file names of each language, so included files are
+ *   detected by their extension even for languages the built-in table doesn't know
+ *
+ * The results are cached until extensions are installed or removed. They are passed to the
+ * include engine through Constants.getIncludeConfig, where the languageSettings setting still
+ * takes precedence and the built-in table remains the fallback for languages without a
+ * configuration.
+ */
+export class LanguageConfigurations {
+  private static _commentStyles: Record<string, CommentStyle> | null = null;
+  private static _fileLanguages: Record<string, string> = {};
+
+  /**
+   * Gets the comment styles of the languages of the installed extensions.
+   *
+   * @returns Record<string, CommentStyle> Language ID → comment style
+   */
+  public static getCommentStyles(): Record<string, CommentStyle> {
+    if (!this._commentStyles) {
+      this._load();
+    }
+    return this._commentStyles!;
+  }
+
+  /**
+   * Gets the languages of file extensions and file names contributed by the installed extensions.
+   *
+   * @returns Record<string, string> Lowercase extension (".toml") or file name → language ID
+   */
+  public static getFileLanguages(): Record<string, string> {
+    if (!this._commentStyles) {
+      this._load();
+    }
+    return this._fileLanguages;
+  }
+
+  /**
+   * Forgets the cached configurations, e.g. after extensions changed.
+   */
+  public static reset(): void {
+    this._commentStyles = null;
+    this._fileLanguages = {};
+  }
+
+  /**
+   * Reads the language contributions of all extensions. Unreadable configurations are skipped,
+   * so one broken extension doesn't affect the others, and reported together in a single error.
+   */
+  private static _load(): void {
+    const commentStyles: Record<string, CommentStyle> = {};
+    const fileLanguages: Record<string, string> = {};
+    const skipped: string[] = [];
+
+    for (const extension of vscode.extensions.all) {
+      const languages = extension.packageJSON?.contributes?.languages;
+      if (!Array.isArray(languages)) {
+        continue;
+      }
+
+      for (const language of languages) {
+        if (typeof language?.id !== "string") {
+          continue;
+        }
+
+        for (const fileExtension of language.extensions ?? []) {
+          fileLanguages[String(fileExtension).toLowerCase()] = language.id;
+        }
+        for (const fileName of language.filenames ?? []) {
+          fileLanguages[String(fileName).toLowerCase()] = language.id;
+        }
+
+        if (typeof language.configuration !== "string") {
+          continue;
+        }
+        const configurationPath = path.join(
+          extension.extensionPath,
+          language.configuration,
+        );
+        try {
+          const configuration = parseJsonWithComments(
+            fs.readFileSync(configurationPath, "utf8"),
+          ) as Record<string, unknown>;
+          const commentStyle = LanguageRules.commentStyleFromConfiguration(
+            configuration?.comments,
+          );
+          if (commentStyle) {
+            commentStyles[language.id] = commentStyle;
+          }
+        } catch (error) {
+          skipped.push(`${configurationPath}: ${error}`);
+        }
+      }
+    }
+
+    if (skipped.length > 0) {
+      console.error(
+        `Skipped unreadable language configurations:\n${skipped.join("\n")}`,
+      );
+    }
+    this._commentStyles = commentStyles;
+    this._fileLanguages = fileLanguages;
+  }
+}
@@ -1,5 +1,13 @@
 import * as vscode from "vscode";
 import { Constants } from "./constants";
+import {
+  CommentStyle,
+  DirectiveSyntax,
+  LanguageRules,
+  LanguageSettings,
+  LineRange,
+  RuleContext,
+} from "./core";
 
 /**
  * The LanguageService class determines the appropriate comment styles and virtual include patterns
@@ -11,41 +19,57 @@ import { Constants } from "./constants";
  * When processing a document, the extension:
  *
  * - Determines the document's language ID (e.g., "javascript", "python")
- * - Calls LanguageService.getLanguageSettings(languageId)
+ * - Calls LanguageService.getLanguageSettings(languageId, documentPath)
  * - Gets appropriate comment style (// for JavaScript, # for Python, etc.)
  * - Constructs language-specific regex patterns and markers
  * - Uses these patterns to detect and process virtual includes
  *
- * The LanguageService also checks for user-configured overrides in VSCode settings, allowing users
- * to customize patterns and markers for specific languages. If custom patterns have been registered
+ * The rules themselves live in the headless core (LanguageRules and DirectiveSyntax); this service
+ * applies them with the current VSCode configuration and to VSCode documents.
+ *
+ * The LanguageService also checks for user-configured overrides in VSCode settings and in the
+ * .virtualinclude.json files of the document's folders, allowing users to customize patterns and
+ * markers for specific languages and parts of a repository. If custom patterns have been registered
  * through the API, those take precedence over default patterns. This service is a key enabler of
  * the extension's extensibility, allowing it to adapt to different languages and custom include
  * directive formats without changing the core codebase.
  */
 export class LanguageService {
-  // A static mapping of language IDs to their corresponding comment symbols
-  private static readonly COMMENT_STYLES: Record<string, CommentStyle> = {
-    javascript: { start: "//", end: "" },
-    typescript: { start: "//", end: "" },
-    python: { start: "#", end: "" },
-    ruby: { start: "#", end: "" },
-    powershell: { start: "#", end: "" },
-    shellscript: { start: "#", end: "" },
-    csharp: { start: "//", end: "" },
-    java: { start: "//", end: "" },
-    c: { start: "//", end: "" },
-    cpp: { start: "//", end: "" },
-    go: { start: "//", end: "" },
-    rust: { start: "//", end: "" },
-    php: { start: "//", end: "" },
-    perl: { start: "#", end: "" },
-    lua: { start: "--", end: "" },
-    sql: { start: "--", end: "" },
-    yaml: { start: "#", end: "" },
-    html: { start: "<!--", end: "-->" },
-    xml: { start: "<!--", end: "-->" },
-    css: { start: "/*", end: "*/" },
-  };
+  /**
+   * Regex to extract comment style override from include directive
+   * Matches patterns like: virtualInclude 'file.js' with '//'
+   * and virtualInclude 'file.js' lines=1-5 with '//'
+   */
+  public static readonly COMMENT_OVERRIDE_REGEX =
+    DirectiveSyntax.COMMENT_OVERRIDE_REGEX;
+
+  /**
+   * Regex to extract a line range selector from include directive
+   * Matches patterns like: virtualInclude 'file.py' lines=10-42 or lines=10-
+   */
+  public static readonly LINE_RANGE_REGEX = DirectiveSyntax.LINE_RANGE_REGEX;
+
+  /**
+   * Regex to extract a symbol selector from include directive
+   * Matches patterns like: virtualInclude 'models/user.py' symbol=User.save
+   */
+  public static readonly SYMBOL_REGEX = DirectiveSyntax.SYMBOL_REGEX;
+
+  /**
+   * File extension to language ID mapping
+   */
+  public static readonly EXTENSION_TO_LANGUAGE =
+    LanguageRules.EXTENSION_TO_LANGUAGE;
+
+  /**
+   * Creates the language rules for the current configuration.
+   *
+   * @param documentPath The path of the document, to apply the configuration files of its folders
+   * @returns LanguageRules
+   */
+  public static getRules(documentPath?: string): LanguageRules {
+    return new LanguageRules(Constants.getIncludeConfig(documentPath));
+  }
 
   /**
    * Return comment style for a given language and fallback to the configured default comment style
@@ -55,91 +79,87 @@ export class LanguageService {
    * @returns CommentStyle
    */
   public static getCommentStyle(languageId: string): CommentStyle {
-    const defaultStyle = Constants.getConfiguration().get(
-      "defaultCommentStyle",
-      "#",
-    );
-    return this.COMMENT_STYLES[languageId] || { start: defaultStyle, end: "" };
+    return this.getRules().getCommentStyle(languageId);
   }
 
   /**
-   * Retrieves settings for a specific language ID:
+   * Get language ID from file extension
    *
-   * 1. Combines defaults with user-configured overrides
-   * 2. Returns complete language settings with pattern and markers
+   * @param filePath
+   * @returns string|null
+   */
+  public static getLanguageFromExtension(filePath: string): string | null {
+    return this.getRules().getLanguageFromExtension(filePath);
+  }
+
+  /**
+   * Gets the language of a file that may not be open, from its extension or name, including the
+   * languages of installed extensions and configuration files.
    *
-   * @param languageId
-   * @returns LanguageSettings
+   * @param filePath
+   * @returns string|null
    */
+  public static getFileLanguage(filePath: string): string | null {
+    return this.getRules(filePath).getFileLanguage(filePath);
+  }
+
   /**
-   * Regex to extract comment style override from include directive
-   * Matches patterns like: virtualInclude 'file.js' with '//'
+   * Extracts comment style override from include directive
+   *
+   * @param line
+   * @returns string|null
    */
-  public static readonly COMMENT_OVERRIDE_REGEX =
-    /virtualInclude\s+["'](.+?)["']\s+with\s+["']([^"']+)["']/;
+  public static getCommentStyleOverride(line: string): string | null {
+    return DirectiveSyntax.getCommentStyleOverride(line);
+  }
 
   /**
-   * File extension to language ID mapping
+   * Splits a region selector off an include path
+   * e.g. 'utils.py#retry-logic' -> { filePath: 'utils.py', region: 'retry-logic' }
+   *
+   * @param includePath
+   * @returns {filePath: string, region: string|null}
    */
-  private static readonly EXTENSION_TO_LANGUAGE: Record<string, string> = {
-    ".js": "javascript",
-    ".ts": "typescript",
-    ".py": "python",
-    ".rb": "ruby",
-    ".ps1": "powershell",
-    ".sh": "shellscript",
-    ".cs": "csharp",
-    ".java": "java",
-    ".c": "c",
-    ".cpp": "cpp",
-    ".go": "go",
-    ".rs": "rust",
-    ".php": "php",
-    ".pl": "perl",
-    ".lua": "lua",
-    ".sql": "sql",
-    ".yaml": "yaml",
-    ".yml": "yaml",
-    ".html": "html",
-    ".xml": "xml",
-    ".css": "css",
-  };
+  public static splitRegion(includePath: string): {
+    filePath: string;
+    region: string | null;
+  } {
+    return DirectiveSyntax.splitRegion(includePath);
+  }
 
   /**
-   * Get language ID from file extension
+   * Determines the comment style of a file, based on its extension and falling back
+   * to the given language.
    *
    * @param filePath
-   * @returns string|null
+   * @param fallbackLanguageId
+   * @returns CommentStyle
    */
-  public static getLanguageFromExtension(filePath: string): string | null {
-    const config = Constants.getConfiguration();
-    const detectFromExtension = config.get<boolean>(
-      Constants.CONFIG_DETECT_FROM_EXTENSION,
-      true,
-    );
-
-    if (!detectFromExtension) {
-      return null;
-    }
-
-    const lastDotIndex = filePath.lastIndexOf(".");
-    if (lastDotIndex === -1) {
-      return null;
-    }
+  public static getCommentStyleForFile(
+    filePath: string,
+    fallbackLanguageId: string,
+  ): CommentStyle {
+    return this.getRules().getCommentStyleForFile(filePath, fallbackLanguageId);
+  }
 
-    const extension = filePath.substring(lastDotIndex).toLowerCase();
-    return this.EXTENSION_TO_LANGUAGE[extension] || null;
+  /**
+   * Extracts the line range selector from include directive
+   *
+   * @param line
+   * @returns LineRange|null
+   */
+  public static getLineRange(line: string): LineRange | null {
+    return DirectiveSyntax.getLineRange(line);
   }
 
   /**
-   * Extracts comment style override from include directive
+   * Extracts the symbol selector from include directive
    *
    * @param line
-   * @returns string|null
+   * @returns string|null The dotted symbol path, e.g. "User.save"
    */
-  public static getCommentStyleOverride(line: string): string | null {
-    const match = line.match(this.COMMENT_OVERRIDE_REGEX);
-    return match ? match[2] : null;
+  public static getSymbolPath(line: string): string | null {
+    return DirectiveSyntax.getSymbolPath(line);
   }
 
   /**
@@ -147,92 +167,17 @@ export class LanguageService {
    *
    * @param document
    * @param lineNumber
-   * @returns {commentStyle: string} | null
-   */
-  /**
-   * Built-in section overrides for common cases
+   * @returns {commentStyle: string, commentEnd?: string} | null
    */
-  private static readonly BUILT_IN_SECTION_OVERRIDES: Array<{
-    fileType: string;
-    pattern: string;
-    commentStyle: string;
-    commentEnd?: string;
-    continueUntil: string;
-  }> = [
-    {
-      // JavaScript inside HTML script tags
-      fileType: "html",
-      pattern: "<script[^>]*>\\s*",
-      commentStyle: "//",
-      continueUntil: "</script>",
-    },
-    {
-      // lua-resty-template inside YAML template sections
-      fileType: "yaml",
-      pattern: "template:\\s*>-",
-      commentStyle: "{#",
-      commentEnd: "#}",
-      continueUntil: "^\\S",
-    },
-  ];
-
   public static getSectionOverride(
     document: vscode.TextDocument,
     lineNumber: number,
   ): { commentStyle: string; commentEnd?: string } | null {
-    const config = Constants.getConfiguration();
-    const userOverrides = config.get<
-      Array<{
-        fileType: string;
-        pattern: string;
-        commentStyle: string;
-        commentEnd?: string;
-        continueUntil: string;
-      }>
-    >(Constants.CONFIG_LANGUAGE_OVERRIDES, []);
-
-    // Combine built-in and user-defined overrides
-    const overrides = [...this.BUILT_IN_SECTION_OVERRIDES, ...userOverrides];
-
-    if (overrides.length === 0) {
-      return null;
-    }
-
-    // Only check overrides for this file type
-    const relevantOverrides = overrides.filter(
-      (o) => o.fileType === document.languageId,
+    return this.getRules(document.uri.fsPath).getSectionOverride(
+      (i) => document.lineAt(i).text,
+      lineNumber,
+      document.languageId,
     );
-    if (relevantOverrides.length === 0) {
-      return null;
-    }
-
-    // Look backwards from the current line to find any section start
-    for (let i = lineNumber; i >= 0; i--) {
-      const line = document.lineAt(i).text;
-
-      for (const override of relevantOverrides) {
-        const sectionStartRegex = new RegExp(override.pattern);
-        if (sectionStartRegex.test(line)) {
-          // Check if we're still in this section
-          const continueUntilRegex = new RegExp(override.continueUntil);
-          for (let j = i + 1; j <= lineNumber; j++) {
-            const checkLine = document.lineAt(j).text;
-            if (continueUntilRegex.test(checkLine)) {
-              // We've exited the section
-              return null;
-            }
-          }
-
-          // We're in the section
-          return {
-            commentStyle: override.commentStyle,
-            commentEnd: override.commentEnd,
-          };
-        }
-      }
-    }
-
-    return null;
   }
 
   /**
@@ -243,44 +188,28 @@ export class LanguageService {
    * @param context Object containing context information
    * @returns LanguageSettings
    */
-  public static getContextAwareSettings(context: {
-    document: vscode.TextDocument;
-    lineNumber: number;
-    line: string;
-    includedFilePath?: string;
-  }): LanguageSettings {
-    // First check for explicit 'with' comment style override in the directive
-    const commentStyleOverride = this.getCommentStyleOverride(context.line);
-    if (commentStyleOverride) {
-      const overrideCommentStyle = { start: commentStyleOverride, end: "" };
-      return this.createDefaultSettings(overrideCommentStyle);
-    }
-
-    // Then check for section override based on configuration
-    const sectionOverride = this.getSectionOverride(
-      context.document,
-      context.lineNumber,
+  public static getContextAwareSettings(
+    context: DocumentContext,
+  ): LanguageSettings {
+    return this.getRules(context.document.uri.fsPath).getContextAwareSettings(
+      this._toRuleContext(context),
     );
-    if (sectionOverride) {
-      const overrideCommentStyle = {
-        start: sectionOverride.commentStyle,
-        end: sectionOverride.commentEnd || "",
-      };
-      return this.createDefaultSettings(overrideCommentStyle);
-    }
-
-    // Then try to detect language from included file extension
-    if (context.includedFilePath) {
-      const detectedLanguage = this.getLanguageFromExtension(
-        context.includedFilePath,
-      );
-      if (detectedLanguage) {
-        return this.getLanguageSettings(detectedLanguage);
-      }
-    }
+  }
 
-    // Fall back to document's language
-    return this.getLanguageSettings(context.document.languageId);
+  /**
+   * Gets the comment style that applies in a specific context, using the same precedence as
+   * getContextAwareSettings: 'with' override, section override, included file extension and
+   * finally the document's language.
+   *
+   * @param context Object containing context information
+   * @returns CommentStyle
+   */
+  public static getContextAwareCommentStyle(
+    context: DocumentContext,
+  ): CommentStyle {
+    return this.getRules(
+      context.document.uri.fsPath,
+    ).getContextAwareCommentStyle(this._toRuleContext(context));
   }
 
   /**
@@ -290,71 +219,41 @@ export class LanguageService {
    * 2. Returns complete language settings with pattern and markers
    *
    * @param languageId
+   * @param documentPath The path of the document, to apply the configuration files of its folders
    * @returns LanguageSettings
    */
-  public static getLanguageSettings(languageId: string): LanguageSettings {
-    const config = Constants.getConfiguration();
-    const allLanguageSettings = config.get<Record<string, LanguageSettings>>(
-      "languageSettings",
-      {},
-    );
-    const commentStyle = this.getCommentStyle(languageId);
-
-    // Get language-specific settings or empty object
-    const langSettings = allLanguageSettings[languageId] || {};
-
-    // Create default settings based on the comment style
-    const defaultSettings = this.createDefaultSettings(commentStyle);
-
-    // Merge with any language-specific overrides
-    return {
-      ...defaultSettings,
-      ...langSettings,
-    };
+  public static getLanguageSettings(
+    languageId: string,
+    documentPath?: string,
+  ): LanguageSettings {
+    return this.getRules(documentPath).getLanguageSettings(languageId);
   }
 
   /**
-   * Generates default settings based on comment style.
+   * Converts a document context into the plain context used by the language rules.
    *
-   * @param commentStyle
-   * @returns LanguageSettings
+   * @param context
+   * @returns RuleContext
    */
-  private static createDefaultSettings(
-    commentStyle: CommentStyle,
-  ): LanguageSettings {
-    const startComment = this.escapeRegExp(commentStyle.start);
+  private static _toRuleContext(context: DocumentContext): RuleContext {
     return {
-      includeDirectivePattern: `${startComment}\\s*virtualInclude\\s+["'](.+?)["']`,
-      startMarkerTemplate: `${commentStyle.start} virtualIncludeStart - DO NOT EDIT CONTENT BELOW ${commentStyle.end}`,
-      endMarkerTemplate: `${commentStyle.start} virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE ${commentStyle.end}`,
+      getLine: (i: number) => context.document.lineAt(i).text,
+      languageId: context.document.languageId,
+      lineNumber: context.lineNumber,
+      line: context.line,
+      includedFilePath: context.includedFilePath,
     };
   }
-
-  /**
-   * Escapes special characters in comment styles for use in regex patterns.
-   *
-   * @param string
-   * @returns string
-   */
-  private static escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  }
 }
 
-/**
- * This interface defines the structure for comment styles with start and end markers
- */
-export interface CommentStyle {
-  start: string;
-  end: string;
-}
+export { CommentStyle, LanguageSettings };
 
 /**
- * This interface defines the structure of language-specific settings, including the pattern
- * for detecting include directives and templates for start/end markers.
+ * This interface defines the context of a document line for which settings are determined.
  */
-export interface LanguageSettings {
-  includeDirectivePattern: string;
-  startMarkerTemplate: string;
-  endMarkerTemplate: string;
+interface DocumentContext {
+  document: vscode.TextDocument;
+  lineNumber: number;
+  line: string;
+  includedFilePath?: string;
 }
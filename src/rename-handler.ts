@@ -0,0 +1,192 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import { Constants } from "./constants";
+import { IncludeNavigation } from "./include-navigation";
+import { IncludeEngine, PathRename, PathResolver } from "./core";
+
+/**
+ * The rename-handler module keeps include directives pointing at their sources when files or
+ * folders are renamed or moved, instead of leaving behind "Cannot find included file" errors.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * Before files are renamed (workspace.onWillRenameFiles), the RenameHandler:
+ *
+ * - Finds the files affected by the rename with the help of the include index: files including a
+ *   renamed source (or a source inside a renamed folder), and including files that are renamed
+ *   themselves, since their relative paths change too
+ * - Computes the new path of every include directive in those files, keeping the style of the
+ *   original path (relative or absolute, "./" prefix, region selector)
+ * - Returns all changes as a single WorkspaceEdit, which VSCode applies together with the rename,
+ *   so the whole operation is undone at once. Every change is marked as needing confirmation, so
+ *   it is shown in the refactor preview first
+ *
+ * After files were renamed (workspace.onDidRenameFiles), the visible documents that include the
+ * renamed files are processed again, which refreshes their diagnostics and watchers.
+ *
+ * The "updateIncludesOnRename" setting turns the rewriting off.
+ */
+export class RenameHandler {
+  constructor(private _manager: VirtualIncludeManager) {}
+
+  /**
+   * Creates the edit that updates the include directives affected by a rename:
+   *
+   * 1. Collects the files including a renamed source and the renamed including files
+   * 2. Finds the directives of each file, skipping directives inside included blocks
+   * 3. Rewrites the paths whose source or including file moved
+   *
+   * @param files The renamed files and folders
+   * @returns Promise<vscode.WorkspaceEdit>
+   */
+  public async createRenameEdit(
+    files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[],
+  ): Promise<vscode.WorkspaceEdit> {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const renames: PathRename[] = files
+      .filter((file) => file.oldUri.scheme === "file")
+      .map((file) => ({
+        oldPath: file.oldUri.fsPath,
+        newPath: file.newUri.fsPath,
+      }));
+    if (renames.length === 0) {
+      return workspaceEdit;
+    }
+
+    await this._manager.includeIndex.whenReady();
+
+    // Files including a renamed source, and including files that are renamed themselves
+    const affected = new Set<string>();
+    for (const sourcePath of this._manager.getIncludedSources()) {
+      if (PathResolver.applyRenames(sourcePath, renames) !== sourcePath) {
+        this._manager
+          .getIncluders(sourcePath)
+          .forEach((uri) => affected.add(uri));
+      }
+    }
+    for (const uri of this._manager.getIncludingFiles()) {
+      const documentPath = vscode.Uri.parse(uri).fsPath;
+      if (PathResolver.applyRenames(documentPath, renames) !== documentPath) {
+        affected.add(uri);
+      }
+    }
+
+    let count = 0;
+    for (const uri of affected) {
+      try {
+        count += await this._rewriteDirectives(
+          vscode.Uri.parse(uri),
+          renames,
+          workspaceEdit,
+        );
+      } catch (error) {
+        console.error(`Error updating includes of ${uri}: ${error}`);
+      }
+    }
+
+    console.log(`Updating ${count} include path(s) for renamed files`);
+    return workspaceEdit;
+  }
+
+  /**
+   * Processes the visible documents including renamed files again, so their diagnostics and
+   * watchers follow the new paths. Without autoProcess, only their diagnostics are refreshed.
+   *
+   * @param files The renamed files and folders
+   * @returns Promise<void>
+   */
+  public async handleRenamed(
+    files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[],
+  ): Promise<void> {
+    const renamedPaths = files.map((file) => file.newUri.fsPath);
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      const includesRenamed = IncludeNavigation.findDirectives(
+        editor.document,
+      ).some((directive) =>
+        renamedPaths.some((renamedPath) =>
+          PathResolver.isSameOrInside(directive.resolvedPath, renamedPath),
+        ),
+      );
+
+      if (includesRenamed) {
+        await this._manager.autoProcessDocument(editor, false);
+      }
+    }
+  }
+
+  /**
+   * Adds the rewritten paths of the directives of a file to a workspace edit.
+   *
+   * @param uri The including file, at its location before the rename
+   * @param renames
+   * @param workspaceEdit
+   * @returns Promise<number> The number of rewritten paths
+   */
+  private async _rewriteDirectives(
+    uri: vscode.Uri,
+    renames: PathRename[],
+    workspaceEdit: vscode.WorkspaceEdit,
+  ): Promise<number> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const documentPath = document.uri.fsPath;
+    const newDocumentPath = PathResolver.applyRenames(documentPath, renames);
+
+    // Processing skips the directives inside included blocks, which belong to the source
+    const config = Constants.getIncludeConfig(documentPath);
+    const { includes } = new IncludeEngine(config).process(
+      document.getText(),
+      documentPath,
+      document.languageId,
+    );
+
+    let count = 0;
+    for (const { directive } of includes) {
+      if (directive.isSelfInclude) {
+        continue;
+      }
+
+      const newSourcePath = PathResolver.applyRenames(
+        directive.resolvedPath,
+        renames,
+      );
+      // Files found in a search path keep their bare path while they stay inside it
+      const newIncludePath =
+        directive.searchPath &&
+        PathResolver.isSameOrInside(newSourcePath, directive.searchPath)
+          ? PathResolver.toIncludePath(
+              path.join(directive.searchPath, "document"),
+              newSourcePath,
+              directive.includePath,
+            )
+          : PathResolver.toIncludePath(
+              newDocumentPath,
+              newSourcePath,
+              directive.includePath,
+              config,
+            );
+      if (
+        newIncludePath === directive.includePath ||
+        (newSourcePath === directive.resolvedPath &&
+          newDocumentPath === documentPath)
+      ) {
+        continue;
+      }
+
+      workspaceEdit.replace(
+        document.uri,
+        IncludeNavigation.getPathRange(directive),
+        newIncludePath,
+        {
+          needsConfirmation: true,
+          label: `Update include of ${directive.includePath}`,
+          description: vscode.workspace.asRelativePath(document.uri),
+        },
+      );
+      count++;
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+
+/**
+ * The SymbolResolver class locates a function, class or other named symbol inside a source file
+ * by asking VSCode's document symbol provider for that file. It allows directives such as
+ * virtualInclude 'models/user.py' symbol=User.save to include a single symbol by name.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When a directive carries a symbol selector, the SymbolResolver:
+ *
+ * - Executes the built-in "vscode.executeDocumentSymbolProvider" command for the source file
+ * - Splits the dotted symbol path (User.save) into its parts
+ * - Walks the symbol tree, matching one part per level (class User, then method save)
+ * - Returns the range of the matching symbol, or null if it cannot be found
+ *
+ * Both hierarchical DocumentSymbols and flat SymbolInformation results are supported, since
+ * language extensions may return either. The result depends on a language extension being
+ * installed for the source file; without one no symbols are reported.
+ */
+export class SymbolResolver {
+  /**
+   * Finds the range of a symbol in a file.
+   *
+   * @param uri The source file
+   * @param symbolPath The dotted symbol path, e.g. "User.save"
+   * @returns Promise<vscode.Range|null>
+   */
+  public static async findSymbolRange(
+    uri: vscode.Uri,
+    symbolPath: string,
+  ): Promise<vscode.Range | null> {
+    try {
+      const symbols = await vscode.commands.executeCommand<
+        (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+      >("vscode.executeDocumentSymbolProvider", uri);
+
+      if (!symbols || symbols.length === 0) {
+        return null;
+      }
+
+      const parts = symbolPath.split(".");
+
+      if ("children" in symbols[0]) {
+        return this._findDocumentSymbol(
+          symbols as vscode.DocumentSymbol[],
+          parts,
+        );
+      }
+
+      return this._findSymbolInformation(
+        symbols as vscode.SymbolInformation[],
+        parts,
+      );
+    } catch (error) {
+      console.error(`Error resolving symbol ${symbolPath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Walks a DocumentSymbol tree, matching one part of the symbol path per level.
+   *
+   * @param symbols
+   * @param parts
+   * @returns vscode.Range|null
+   */
+  private static _findDocumentSymbol(
+    symbols: vscode.DocumentSymbol[],
+    parts: string[],
+  ): vscode.Range | null {
+    const symbol = symbols.find((s) => this._matchesName(s.name, parts[0]));
+    if (!symbol) {
+      return null;
+    }
+
+    if (parts.length === 1) {
+      return symbol.range;
+    }
+
+    return this._findDocumentSymbol(symbol.children, parts.slice(1));
+  }
+
+  /**
+   * Matches a flat SymbolInformation list using the container name for the parent parts.
+   *
+   * @param symbols
+   * @param parts
+   * @returns vscode.Range|null
+   */
+  private static _findSymbolInformation(
+    symbols: vscode.SymbolInformation[],
+    parts: string[],
+  ): vscode.Range | null {
+    const name = parts[parts.length - 1];
+    const container = parts.slice(0, -1).join(".");
+
+    const symbol = symbols.find(
+      (s) =>
+        this._matchesName(s.name, name) &&
+        (container === "" ||
+          s.containerName === container ||
+          s.containerName.endsWith(`.${container}`)),
+    );
+
+    return symbol ? symbol.location.range : null;
+  }
+
+  /**
+   * Compares a reported symbol name with a part of the symbol path. Some providers include
+   * the signature in the name (e.g. "save(self)"), so only the identifier is compared.
+   *
+   * @param symbolName
+   * @param part
+   * @returns boolean
+   */
+  private static _matchesName(symbolName: string, part: string): boolean {
+    return symbolName === part || symbolName.startsWith(`${part}(`);
+  }
+}
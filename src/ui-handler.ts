@@ -63,8 +63,7 @@ export class UIHandler {
    * @param sourcePath
    */
   public showAffectedFilesNotification(sourcePath: string): void {
-    const affectedDocuments =
-      this._manager.sourceToDocuments.get(sourcePath) || new Set<string>();
+    const affectedDocuments = this._manager.getIncluders(sourcePath);
     const fileName = path.basename(sourcePath);
     const message = `${fileName} changed, affecting ${
       affectedDocuments.size
@@ -99,8 +98,7 @@ export class UIHandler {
    * @returns Promise<void>
    */
   public async showAffectedFilesQuickPick(sourcePath: string): Promise<void> {
-    const affectedDocuments =
-      this._manager.sourceToDocuments.get(sourcePath) || new Set<string>();
+    const affectedDocuments = this._manager.getIncluders(sourcePath);
 
     if (affectedDocuments.size === 0) {
       this.showInfoMessage("No affected files found");
@@ -150,8 +148,7 @@ export class UIHandler {
    * @returns Promise<void>
    */
   public async saveAffectedFiles(sourcePath: string): Promise<void> {
-    const affectedDocuments =
-      this._manager.sourceToDocuments.get(sourcePath) || new Set<string>();
+    const affectedDocuments = this._manager.getIncluders(sourcePath);
 
     if (affectedDocuments.size === 0) {
       this.showInfoMessage("No affected files to save");
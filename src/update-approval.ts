@@ -0,0 +1,201 @@
+import * as vscode from "vscode";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import { DirectiveSyntax, IncludeResult } from "./core";
+
+/**
+ * The update-approval module stages include updates for review instead of applying them straight
+ * away. It is used when the "confirmUpdates" setting is enabled, so a large source change can't
+ * silently rewrite blocks in open files.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the DocumentProcessor (or the WorkspaceProcessor) has updates to apply, the UpdateApproval:
+ *
+ * - Leaves out updates that were rejected before, so the same update isn't offered again every
+ *   time the document is processed
+ * - Puts the remaining updates into a single WorkspaceEdit, marking each of them as needing
+ *   confirmation, which opens VSCode's refactor preview. Every include is a separate entry, with
+ *   a diff of the current block and the new expansion, that can be accepted or unchecked
+ * - After the preview closes, processes the documents again: updates that are still pending
+ *   were unchecked (or the whole preview was discarded) and are remembered as rejected
+ *
+ * The preview stays open until the user closes it, so edit protection stays on meanwhile: it only
+ * lets through the changes that apply one of the previewed updates (see isPreviewedChange).
+ *
+ * Rejections are remembered per document, directive and new content, so an include is offered
+ * again as soon as its source changes once more. Running "Process Virtual Includes" explicitly
+ * forgets the rejections of the document.
+ */
+export class UpdateApproval {
+  // Keys of the rejected updates, see _getKey
+  private _rejected: Set<string> = new Set();
+  // Document URI → updates shown in the refactor preview
+  private _pending: Map<string, vscode.TextEdit[]> = new Map();
+
+  constructor(private _manager: VirtualIncludeManager) {}
+
+  /**
+   * Shows the updates of a document in the refactor preview and applies the accepted ones.
+   *
+   * @param document
+   * @param includes The results of processing the document
+   * @returns Promise<void>
+   */
+  public async confirmUpdates(
+    document: vscode.TextDocument,
+    includes: IncludeResult[],
+  ): Promise<void> {
+    await this.confirmWorkspaceUpdates([{ document, includes }]);
+  }
+
+  /**
+   * Shows the updates of several documents in a single refactor preview and applies the
+   * accepted ones:
+   *
+   * 1. Leaves out rejected updates and documents that are already being previewed
+   * 2. Stages every update with a label naming the include
+   * 3. Applies the edit, which opens the refactor preview
+   * 4. Remembers the updates that were not accepted
+   *
+   * @param updates The documents and the results of processing them
+   * @returns Promise<number> The number of updates that were accepted
+   */
+  public async confirmWorkspaceUpdates(
+    updates: { document: vscode.TextDocument; includes: IncludeResult[] }[],
+  ): Promise<number> {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const staged: vscode.TextDocument[] = [];
+    const stagedKeys = new Set<string>();
+
+    for (const { document, includes } of updates) {
+      const textEdits: vscode.TextEdit[] = [];
+
+      if (this._pending.has(document.uri.toString())) {
+        console.log(`Updates of ${document.uri} are already being previewed`);
+        continue;
+      }
+
+      const pending = includes.filter(
+        (include) =>
+          include.edit && !this._rejected.has(this._getKey(document, include)),
+      );
+      if (pending.length === 0) {
+        continue;
+      }
+
+      for (const include of pending) {
+        const textEdit = this._manager.documentProcessor.toTextEdit(
+          document,
+          include.edit!,
+        );
+        workspaceEdit.replace(document.uri, textEdit.range, textEdit.newText, {
+          needsConfirmation: true,
+          label: `Update include of ${include.directive.includePath}`,
+          description: `line ${include.directive.line + 1}`,
+        });
+        textEdits.push(textEdit);
+        stagedKeys.add(this._getKey(document, include));
+      }
+
+      staged.push(document);
+      this._pending.set(document.uri.toString(), textEdits);
+    }
+
+    if (staged.length === 0) {
+      return 0;
+    }
+
+    console.log(
+      `Previewing ${stagedKeys.size} include update(s) in ${staged.length} document(s)`,
+    );
+
+    let rejectedCount = 0;
+    try {
+      await vscode.workspace.applyEdit(workspaceEdit);
+
+      // Whatever is still pending after the preview was not accepted
+      for (const document of staged) {
+        const engine =
+          await this._manager.documentProcessor.createEngine(document);
+        const result = engine.process(
+          document.getText(),
+          document.uri.fsPath,
+          document.languageId,
+        );
+
+        for (const include of result.includes) {
+          const key = this._getKey(document, include);
+          if (include.edit && stagedKeys.has(key)) {
+            this._rejected.add(key);
+            rejectedCount++;
+          }
+        }
+      }
+    } finally {
+      for (const document of staged) {
+        this._pending.delete(document.uri.toString());
+      }
+    }
+
+    if (rejectedCount > 0) {
+      console.log(`${rejectedCount} include update(s) were rejected`);
+    }
+    return stagedKeys.size - rejectedCount;
+  }
+
+  /**
+   * Checks if a change of a document applies updates shown in the refactor preview, i.e. every
+   * changed range and text is one of the previewed updates of the document.
+   *
+   * @param e
+   * @returns boolean
+   */
+  public isPreviewedChange(e: vscode.TextDocumentChangeEvent): boolean {
+    const textEdits = this._pending.get(e.document.uri.toString());
+    return (
+      !!textEdits &&
+      e.contentChanges.length > 0 &&
+      e.contentChanges.every((change) =>
+        textEdits.some(
+          (textEdit) =>
+            textEdit.range.isEqual(change.range) &&
+            textEdit.newText === change.text,
+        ),
+      )
+    );
+  }
+
+  /**
+   * Forgets the rejected updates of a document, so they are offered again.
+   *
+   * @param document
+   */
+  public clearRejections(document: vscode.TextDocument): void {
+    const prefix = `${document.uri.toString()}|`;
+    for (const key of [...this._rejected]) {
+      if (key.startsWith(prefix)) {
+        this._rejected.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Identifies an update by its document, its directive and the content it would write, so a
+   * rejection no longer applies once the source changes again.
+   *
+   * @param document
+   * @param include
+   * @returns string
+   */
+  private _getKey(
+    document: vscode.TextDocument,
+    include: IncludeResult,
+  ): string {
+    const content = include.edit ? include.edit.lines.join("\n") : "";
+    return [
+      document.uri.toString(),
+      include.directive.text.trim(),
+      DirectiveSyntax.hashContent(content),
+    ].join("|");
+  }
+}
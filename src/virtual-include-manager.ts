@@ -6,6 +6,10 @@ import { UIHandler } from "./ui-handler";
 import { Constants } from "./constants";
 import { StatusBarManager } from "./status-bar";
 import { DiagnosticsManager } from "./diagnostics";
+import { WorkspaceProcessor } from "./workspace-processor";
+import { IncludeIndex } from "./include-index";
+import { UpdateApproval } from "./update-approval";
+import { RenameHandler } from "./rename-handler";
 
 /**
  * The virtual-include-manager module serves as the central coordinator for the entire Virtual Include extension.
@@ -20,6 +24,10 @@ export class VirtualIncludeManager implements vscode.Disposable {
   private _disposables: vscode.Disposable[] = [];
   private _statusBar: StatusBarManager;
   private _diagnostics: DiagnosticsManager;
+  private _workspaceProcessor: WorkspaceProcessor;
+  private _includeIndex: IncludeIndex;
+  private _updateApproval: UpdateApproval;
+  private _renameHandler: RenameHandler;
 
   // Maps to track includes and relationships
   private _documentIncludes: Map<string, Map<number, string>> = new Map();
@@ -30,8 +38,15 @@ export class VirtualIncludeManager implements vscode.Disposable {
   // Flag to temporarily disable edit protection during programmatic updates
   private _isPerformingUpdate: boolean = false;
 
+  // Fires after a document was processed, so views of the include graph can refresh
+  private _onDidProcessDocument: vscode.EventEmitter<vscode.TextDocument> =
+    new vscode.EventEmitter<vscode.TextDocument>();
+  public readonly onDidProcessDocument: vscode.Event<vscode.TextDocument> =
+    this._onDidProcessDocument.event;
+
   /**
-   * Creates instances of all component classes (DocumentProcessor, FileWatcher, EditProtection, UIHandler).
+   * Creates instances of all component classes (DocumentProcessor, FileWatcher, EditProtection, UIHandler,
+   * WorkspaceProcessor, IncludeIndex, UpdateApproval, RenameHandler).
    */
   constructor() {
     this._documentProcessor = new DocumentProcessor(this);
@@ -40,16 +55,74 @@ export class VirtualIncludeManager implements vscode.Disposable {
     this._uiHandler = new UIHandler(this);
     this._statusBar = new StatusBarManager();
     this._diagnostics = new DiagnosticsManager();
+    this._workspaceProcessor = new WorkspaceProcessor(this);
+    this._includeIndex = new IncludeIndex();
+    this._updateApproval = new UpdateApproval(this);
+    this._renameHandler = new RenameHandler(this);
   }
 
   /**
    * Called after construction to set up the manager:
    *
    * 1. Delegates to _registerEventHandlers to set up event listeners
-   * 2. Separating initialization from construction allows for better testing and control
+   * 2. Starts the workspace include index when storage for it is given
+   * 3. Separating initialization from construction allows for better testing and control
+   *
+   * @param storage The workspace storage the include index is persisted in
    */
-  public initialize(): void {
+  public initialize(storage?: vscode.Memento): void {
     this._registerEventHandlers();
+
+    if (storage) {
+      this._includeIndex.initialize(storage);
+    }
+  }
+
+  /**
+   * Gets all files that include a source file or glob pattern, combining the documents processed
+   * in this session with the workspace include index.
+   *
+   * @param sourcePath The resolved path of the source file
+   * @returns Set<string> The URIs of the including files
+   */
+  public getIncluders(sourcePath: string): Set<string> {
+    const includers = this._includeIndex.getIncluders(sourcePath);
+    for (const uri of this._sourceToDocuments.get(sourcePath) ?? []) {
+      includers.add(uri);
+    }
+    return includers;
+  }
+
+  /**
+   * Gets all files that include something, combining the documents processed in this session
+   * with the workspace include index.
+   *
+   * @returns Set<string> The URIs of the including files
+   */
+  public getIncludingFiles(): Set<string> {
+    const files = new Set(this._includeIndex.getIncludingFiles());
+    for (const [uri, includes] of this._documentIncludes) {
+      if (includes.size > 0) {
+        files.add(uri);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Gets all included sources, combining the documents processed in this session with the
+   * workspace include index.
+   *
+   * @returns Set<string> The resolved paths (or glob patterns) of the sources
+   */
+  public getIncludedSources(): Set<string> {
+    const sources = new Set(this._includeIndex.getIncludedSources());
+    for (const [sourcePath, documents] of this._sourceToDocuments) {
+      if (documents.size > 0) {
+        sources.add(sourcePath);
+      }
+    }
+    return sources;
   }
 
   /**
@@ -79,7 +152,7 @@ export class VirtualIncludeManager implements vscode.Disposable {
 
         if (editors.length > 0) {
           console.log(`Document has an editor, processing virtual includes`);
-          await this.processDocumentWithoutDirtyState(editors[0]);
+          await this.autoProcessDocument(editors[0]);
         } else {
           console.log(`Document doesn't have an editor, skipping`);
         }
@@ -90,7 +163,40 @@ export class VirtualIncludeManager implements vscode.Disposable {
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor) {
       console.log(`Processing active editor: ${activeEditor.document.uri}`);
-      await this.processDocumentWithoutDirtyState(activeEditor);
+      await this.autoProcessDocument(activeEditor);
+    }
+  }
+
+  /**
+   * Handles a document for an automatic trigger (opening, switching editors, saving or typing a
+   * directive):
+   *
+   * 1. With autoProcess enabled, processes the document, keeping it clean if it was clean before
+   *    (unless processing was triggered by an edit)
+   * 2. Otherwise only refreshes its diagnostics, so includes are expanded by explicit commands only
+   *
+   * @param editor
+   * @param preserveCleanState Whether to save the document again if processing made it dirty
+   * @return Promise<void>
+   */
+  public async autoProcessDocument(
+    editor: vscode.TextEditor,
+    preserveCleanState: boolean = true,
+  ): Promise<void> {
+    if (Constants.isAutoProcessEnabled()) {
+      if (preserveCleanState) {
+        await this.processDocumentWithoutDirtyState(editor);
+      } else {
+        await this.processDocument(editor);
+      }
+      return;
+    }
+
+    const issueCount = this._diagnostics.checkDocument(editor.document);
+    if (issueCount > 0) {
+      this._statusBar.setIssues(issueCount);
+    } else {
+      this._statusBar.setIdle();
     }
   }
 
@@ -147,12 +253,12 @@ export class VirtualIncludeManager implements vscode.Disposable {
       // Clear any existing diagnostics
       this._diagnostics.clearDiagnostics(editor.document);
 
-      // Check for include issues
-      const issueCount = this._diagnostics.checkDocument(editor.document);
-
       // Process document as before
       await this._documentProcessor.processDocument(editor);
 
+      // Check for include issues, after processing so updated includes aren't reported as stale
+      const issueCount = this._diagnostics.checkDocument(editor.document);
+
       // Update status bar based on issues
       if (issueCount > 0) {
         this._statusBar.setIssues(issueCount);
@@ -164,6 +270,8 @@ export class VirtualIncludeManager implements vscode.Disposable {
       this._statusBar.setIssues(1);
       console.error(`Error processing document: ${error}`);
       this._uiHandler.showErrorMessage(`Error: ${error}`);
+    } finally {
+      this._onDidProcessDocument.fire(editor.document);
     }
   }
 
@@ -171,8 +279,9 @@ export class VirtualIncludeManager implements vscode.Disposable {
    * Register event handlers:
    *
    * 1. Sets up event handlers for VSCode events
-   * 2. Creates handlers for document open, save, change, and editor change events
-   * 3. Registers a handler for processing documents before saving
+   * 2. Creates handlers for document open, save, change, and editor change events, which only
+   *    process documents when autoProcess is enabled (see autoProcessDocument)
+   * 3. Registers handlers for renamed files
    * 4. Adds all event disposables to the _disposables array for later cleanup
    * 5. Each handler delegates to the appropriate component or method
    */
@@ -185,7 +294,7 @@ export class VirtualIncludeManager implements vscode.Disposable {
             (e) => e.document === document,
           );
           for (const editor of editors) {
-            await this.processDocumentWithoutDirtyState(editor);
+            await this.autoProcessDocument(editor);
           }
         } catch (error) {
           console.error(`Error processing document on open: ${error}`);
@@ -201,7 +310,7 @@ export class VirtualIncludeManager implements vscode.Disposable {
             (e) => e.document === document,
           );
           for (const editor of editors) {
-            await this.processDocument(editor);
+            await this.autoProcessDocument(editor, false);
           }
         } catch (error) {
           console.error(`Error processing document on save: ${error}`);
@@ -248,7 +357,7 @@ export class VirtualIncludeManager implements vscode.Disposable {
               if (Constants.VIRTUAL_INCLUDE_REGEX.test(currentLine)) {
                 // Add a small delay to allow typing to complete
                 setTimeout(async () => {
-                  await this.processDocument(editor);
+                  await this.autoProcessDocument(editor, false);
                 }, 100);
               }
             }
@@ -266,17 +375,24 @@ export class VirtualIncludeManager implements vscode.Disposable {
     const onActiveEditorChange = vscode.window.onDidChangeActiveTextEditor(
       async (editor) => {
         if (editor) {
-          await this.processDocumentWithoutDirtyState(editor);
+          await this.autoProcessDocument(editor);
         }
       },
     );
 
-    // Also need to add a handler for 'onWillSaveTextDocument' to fix any incomplete regions
-    const onWillSaveTextDocument = vscode.workspace.onWillSaveTextDocument(
-      (e) => {
-        e.waitUntil(this._editProtection.preventProtectedEdits(e.document));
-      },
-    );
+    // Rewrite include paths together with renames, and reprocess the documents afterwards
+    const onWillRenameFiles = vscode.workspace.onWillRenameFiles((e) => {
+      if (Constants.isUpdateIncludesOnRenameEnabled()) {
+        e.waitUntil(this._renameHandler.createRenameEdit(e.files));
+      }
+    });
+    const onDidRenameFiles = vscode.workspace.onDidRenameFiles(async (e) => {
+      try {
+        await this._renameHandler.handleRenamed(e.files);
+      } catch (error) {
+        console.error(`Error processing documents after rename: ${error}`);
+      }
+    });
 
     // Add all disposables
     this._disposables.push(
@@ -284,7 +400,8 @@ export class VirtualIncludeManager implements vscode.Disposable {
       onDocumentSave,
       onDocumentChange,
       onActiveEditorChange,
-      onWillSaveTextDocument,
+      onWillRenameFiles,
+      onDidRenameFiles,
     );
   }
 
@@ -330,6 +447,22 @@ export class VirtualIncludeManager implements vscode.Disposable {
     return this._editProtection;
   }
 
+  get workspaceProcessor(): WorkspaceProcessor {
+    return this._workspaceProcessor;
+  }
+
+  get includeIndex(): IncludeIndex {
+    return this._includeIndex;
+  }
+
+  get updateApproval(): UpdateApproval {
+    return this._updateApproval;
+  }
+
+  get renameHandler(): RenameHandler {
+    return this._renameHandler;
+  }
+
   /**
    * Clean up resources
    *
@@ -354,6 +487,8 @@ export class VirtualIncludeManager implements vscode.Disposable {
     this._sourceToDocuments.clear();
     this._statusBar.dispose();
     this._diagnostics.dispose();
+    this._includeIndex.dispose();
+    this._onDidProcessDocument.dispose();
 
     // Dispose all registered disposables
     for (const disposable of this._disposables) {
@@ -0,0 +1,261 @@
+import * as vscode from "vscode";
+import { VirtualIncludeManager } from "./virtual-include-manager";
+import { Constants } from "./constants";
+import { IncludeResult } from "./core";
+
+/**
+ * The workspace-processor module updates the includes of every file in the workspace, including
+ * files that are not open in an editor. This keeps closed files up to date when a shared fragment
+ * changes, which the editor-based processing of the DocumentProcessor cannot do.
+ *
+ * HOW IT WORKS IN DETAIL
+ *
+ * When the "virtualInclude.processWorkspace" command runs, the WorkspaceProcessor:
+ *
+ * - Finds candidate files with vscode.workspace.findFiles, using the configurable
+ *   "workspaceInclude" and "workspaceExclude" globs
+ * - Skips files that don't contain "virtualInclude" without opening them as documents
+ * - Processes each remaining document with the IncludeEngine and applies its edits through a
+ *   WorkspaceEdit, one file at a time, so no editor is needed
+ * - Saves updated files, unless they already had unsaved changes before
+ * - Shows progress in a notification that can be cancelled; files updated before cancelling
+ *   keep their changes
+ * - When "confirmUpdates" is enabled, collects the updates of all files instead and shows them
+ *   in a single refactor preview at the end (see UpdateApproval)
+ *
+ * A summary of updated files, updated includes and problems is shown when done. The same
+ * processing updates a given set of files, e.g. the files including a source in the include tree.
+ */
+export class WorkspaceProcessor {
+  constructor(private _manager: VirtualIncludeManager) {}
+
+  /**
+   * Updates the includes of all files in the workspace:
+   *
+   * 1. Finds the files matching the workspace globs
+   * 2. Processes each file containing include directives
+   * 3. Reports progress and stops when cancelled
+   * 4. Shows a summary
+   *
+   * @returns Promise<WorkspaceProcessSummary>
+   */
+  public async processWorkspace(): Promise<WorkspaceProcessSummary> {
+    return this._processFiles((token) => {
+      const { include, exclude } = Constants.getWorkspaceGlobs();
+      return vscode.workspace.findFiles(include, exclude, undefined, token);
+    });
+  }
+
+  /**
+   * Updates the includes of the given files, the same way as processWorkspace.
+   *
+   * @param uris
+   * @returns Promise<WorkspaceProcessSummary>
+   */
+  public async processFiles(
+    uris: vscode.Uri[],
+  ): Promise<WorkspaceProcessSummary> {
+    return this._processFiles(async () => uris);
+  }
+
+  /**
+   * Processes files with progress, confirmation and a summary.
+   *
+   * @param findFiles Finds the files to process
+   * @returns Promise<WorkspaceProcessSummary>
+   */
+  private async _processFiles(
+    findFiles: (token: vscode.CancellationToken) => Thenable<vscode.Uri[]>,
+  ): Promise<WorkspaceProcessSummary> {
+    const summary: WorkspaceProcessSummary = {
+      scannedFiles: 0,
+      updatedFiles: 0,
+      updatedIncludes: 0,
+      problems: 0,
+      cancelled: false,
+    };
+
+    const staged: StagedUpdate[] = [];
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Updating virtual includes",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const files = await findFiles(token);
+        console.log(`Found ${files.length} files to scan for includes`);
+
+        for (const uri of files) {
+          if (token.isCancellationRequested) {
+            summary.cancelled = true;
+            break;
+          }
+
+          progress.report({
+            message: vscode.workspace.asRelativePath(uri),
+            increment: 100 / files.length,
+          });
+
+          try {
+            await this._processFile(uri, summary, staged);
+          } catch (error) {
+            console.error(`Error processing ${uri}: ${error}`);
+            summary.problems++;
+          }
+        }
+      },
+    );
+
+    if (staged.length > 0) {
+      await this._confirmStagedUpdates(staged, summary);
+    }
+
+    this._showSummary(summary);
+    return summary;
+  }
+
+  /**
+   * Shows the collected updates in the refactor preview, then saves the files that were clean
+   * before and records the accepted updates in the summary.
+   *
+   * @param staged
+   * @param summary
+   * @returns Promise<void>
+   */
+  private async _confirmStagedUpdates(
+    staged: StagedUpdate[],
+    summary: WorkspaceProcessSummary,
+  ): Promise<void> {
+    summary.updatedIncludes +=
+      await this._manager.updateApproval.confirmWorkspaceUpdates(staged);
+
+    for (const { document, wasDirty } of staged) {
+      if (document.isDirty && !wasDirty) {
+        await document.save();
+        summary.updatedFiles++;
+      }
+    }
+  }
+
+  /**
+   * Processes a single file, applying and saving the engine's edits if it is out of date.
+   *
+   * @param uri
+   * @param summary The summary to record the results in
+   * @param staged The updates waiting for confirmation, used when "confirmUpdates" is enabled
+   * @returns Promise<void>
+   */
+  private async _processFile(
+    uri: vscode.Uri,
+    summary: WorkspaceProcessSummary,
+    staged: StagedUpdate[],
+  ): Promise<void> {
+    // Check the raw content first, so files without includes are never opened as documents
+    const openDocument = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString(),
+    );
+    const text = openDocument
+      ? openDocument.getText()
+      : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+    if (!text.includes("virtualInclude")) {
+      return;
+    }
+
+    summary.scannedFiles++;
+
+    const document =
+      openDocument ?? (await vscode.workspace.openTextDocument(uri));
+    const wasDirty = document.isDirty;
+
+    const engine = await this._manager.documentProcessor.createEngine(document);
+    const result = engine.process(
+      document.getText(),
+      document.uri.fsPath,
+      document.languageId,
+    );
+
+    summary.problems += result.includes.filter(
+      (include) =>
+        include.status === "missing" || include.status === "invalidSelection",
+    ).length;
+
+    if (!result.changed) {
+      return;
+    }
+
+    if (Constants.isConfirmUpdatesEnabled()) {
+      staged.push({ document, includes: result.includes, wasDirty });
+      return;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const edit of result.edits) {
+      const textEdit = this._manager.documentProcessor.toTextEdit(
+        document,
+        edit,
+      );
+      workspaceEdit.replace(uri, textEdit.range, textEdit.newText);
+    }
+
+    // Disable edit protection while applying our own edits
+    this._manager.isPerformingUpdate = true;
+    try {
+      if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+        throw new Error(`Edit could not be applied`);
+      }
+    } finally {
+      this._manager.isPerformingUpdate = false;
+    }
+
+    // Keep the user's unsaved changes unsaved, but don't leave our own edits behind
+    if (!wasDirty) {
+      await document.save();
+    }
+
+    console.log(`Updated ${result.edits.length} include(s) in ${uri}`);
+    summary.updatedFiles++;
+    summary.updatedIncludes += result.edits.length;
+  }
+
+  /**
+   * Shows a summary of the workspace update.
+   *
+   * @param summary
+   */
+  private _showSummary(summary: WorkspaceProcessSummary): void {
+    const message =
+      `${summary.cancelled ? "Cancelled: updated" : "Updated"} ` +
+      `${summary.updatedIncludes} include(s) in ${summary.updatedFiles} file(s), ` +
+      `${summary.scannedFiles} file(s) with includes scanned`;
+
+    if (summary.problems > 0) {
+      this._manager.uiHandler.showWarningMessage(
+        `${message}, ${summary.problems} problem(s) found`,
+      );
+    } else {
+      this._manager.uiHandler.showInfoMessage(message);
+    }
+  }
+}
+
+/**
+ * This interface defines the summary of a workspace update.
+ */
+export interface WorkspaceProcessSummary {
+  scannedFiles: number;
+  updatedFiles: number;
+  updatedIncludes: number;
+  problems: number;
+  cancelled: boolean;
+}
+
+/**
+ * This interface defines the updates of a file that wait for confirmation.
+ */
+interface StagedUpdate {
+  document: vscode.TextDocument;
+  includes: IncludeResult[];
+  wasDirty: boolean;
+}
@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import { Cli } from "../../src/cli";
+
+suite("CLI Tests", () => {
+  let root: string;
+  let logStub: sinon.SinonStub;
+  let errorStub: sinon.SinonStub;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "virtual-include-cli-"));
+    fs.mkdirSync(path.join(root, ".vscode"));
+    fs.writeFileSync(path.join(root, "helper.py"), "def helper():\n    pass\n");
+    fs.writeFileSync(
+      path.join(root, "main.py"),
+      "# virtualInclude 'helper.py'\nprint('main')\n",
+    );
+
+    // Keep the test output clean
+    logStub = sinon.stub(console, "log");
+    sinon.stub(console, "warn");
+    errorStub = sinon.stub(console, "error");
+  });
+
+  teardown(() => {
+    sinon.restore();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("Check fails until expand has updated the files", () => {
+    assert.strictEqual(Cli.run(["check", "--root", root]), 1);
+    assert.ok(
+      errorStub.calledWithMatch("main.py:1: error: Include of helper.py"),
+      "Stale include should be reported with its location",
+    );
+
+    assert.strictEqual(Cli.run(["expand", "--root", root]), 0);
+    assert.ok(
+      fs
+        .readFileSync(path.join(root, "main.py"), "utf8")
+        .includes("def helper():"),
+      "Included content not written",
+    );
+
+    assert.strictEqual(Cli.run(["check", "--root", root]), 0);
+  });
+
+  test("Reads settings with comments from .vscode/settings.json", () => {
+    fs.writeFileSync(
+      path.join(root, ".vscode", "settings.json"),
+      '{\n  // Python files use a custom marker\n  "virtualInclude.languageSettings": {\n    "python": { "startMarkerTemplate": "# BEGIN", "endMarkerTemplate": "# END" },\n  },\n}\n',
+    );
+
+    assert.strictEqual(Cli.run(["expand", "--root", root]), 0);
+    assert.strictEqual(
+      fs.readFileSync(path.join(root, "main.py"), "utf8"),
+      "# virtualInclude 'helper.py'\n# BEGIN\ndef helper():\n    pass\n\n# END\n\nprint('main')\n",
+    );
+  });
+
+  test("Applies the configuration files of folders", () => {
+    fs.mkdirSync(path.join(root, "pkg"));
+    fs.writeFileSync(
+      path.join(root, "pkg", ".virtualinclude.json"),
+      '{ "startMarker": "{{comment}} BEGIN", "endMarker": "{{comment}} END", "searchPaths": [".."] }',
+    );
+    fs.writeFileSync(
+      path.join(root, "pkg", "app.py"),
+      "# virtualInclude 'helper.py'\n",
+    );
+
+    assert.strictEqual(Cli.run(["expand", "--root", root]), 0);
+    assert.strictEqual(
+      fs.readFileSync(path.join(root, "pkg", "app.py"), "utf8"),
+      "# virtualInclude 'helper.py'\n# BEGIN\ndef helper():\n    pass\n\n# END\n\n",
+    );
+  });
+
+  test("Reports missing files and invalid arguments", () => {
+    fs.writeFileSync(
+      path.join(root, "broken.py"),
+      "# virtualInclude 'nope.py'\n",
+    );
+
+    assert.strictEqual(Cli.run(["expand", "--root", root]), 1);
+    assert.ok(
+      errorStub.calledWithMatch("Cannot find included file: nope.py"),
+      "Missing file should be reported",
+    );
+    assert.strictEqual(Cli.run(["validate"]), 2);
+  });
+
+  test("Summarizes the failures of check", () => {
+    assert.strictEqual(Cli.run(["expand", "--root", root]), 0);
+    fs.writeFileSync(
+      path.join(root, "broken.py"),
+      "# virtualInclude 'nope.py'\n",
+    );
+
+    assert.strictEqual(Cli.run(["check", "--root", root]), 1);
+    assert.ok(
+      logStub.calledWith("1 invalid include(s) or marker(s)"),
+      "Invalid include should be counted",
+    );
+    assert.ok(
+      !logStub.calledWith("All includes are up to date"),
+      "Failing check should not claim success",
+    );
+  });
+});
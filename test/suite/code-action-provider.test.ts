@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import * as fs from "fs";
+import { VirtualIncludeCodeActionProvider } from "../../src/code-action-provider";
+import { Constants } from "../../src/constants";
+import {
+  createTestFile,
+  ensureTestWorkspace,
+  deleteTestFile,
+} from "../testUtils";
+
+suite("Code Action Provider Tests", function () {
+  this.timeout(10000);
+
+  const provider = new VirtualIncludeCodeActionProvider();
+  const folderName = `code-action-${Math.random().toString(36).substring(2, 10)}`;
+  let folderPath: string;
+  let documentUri: vscode.Uri | undefined;
+
+  setup(function () {
+    ensureTestWorkspace();
+    folderPath = path.resolve(__dirname, "../../test-workspace", folderName);
+    fs.mkdirSync(folderPath, { recursive: true });
+    fs.writeFileSync(path.join(folderPath, "helper.py"), "pass");
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    if (documentUri) {
+      await deleteTestFile(documentUri);
+      documentUri = undefined;
+    }
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  /**
+   * Requests the quick fixes for a missing file diagnostic on the first line of a new document.
+   */
+  async function provideFixes(
+    includePath: string,
+    triggerKind = vscode.CodeActionTriggerKind.Invoke,
+  ) {
+    documentUri = await createTestFile(
+      `# virtualInclude "${includePath}"\nprint('main')`,
+    );
+    const document = await vscode.workspace.openTextDocument(documentUri);
+    const diagnostic = new vscode.Diagnostic(
+      document.lineAt(0).range,
+      `Cannot find included file: ${includePath}`,
+    );
+    diagnostic.source = "Virtual Include";
+    diagnostic.code = Constants.DIAGNOSTIC_MISSING_FILE;
+
+    return provider.provideCodeActions(document, diagnostic.range, {
+      diagnostics: [diagnostic],
+      only: undefined,
+      triggerKind,
+    });
+  }
+
+  test("Offers creating and removing a missing file", async function () {
+    const actions = await provideFixes(`${folderName}/new/util.py`);
+
+    const create = actions.find((a) => a.title.startsWith("Create"))!;
+    assert.strictEqual(
+      create.command?.command,
+      "virtualInclude.createIncludedFile",
+    );
+    assert.deepStrictEqual(create.command?.arguments?.slice(1), [0, false]);
+    assert.ok(
+      !actions.some((a) => a.title.endsWith("from template")),
+      "Only offers the template when one is configured",
+    );
+
+    const remove = actions.find((a) => a.title.startsWith("Remove"))!;
+    assert.strictEqual(remove.command?.command, "virtualInclude.removeInclude");
+  });
+
+  test("Offers the template when one is configured", async function () {
+    sinon.stub(Constants, "getNewFileTemplate").returns("template.py");
+
+    const actions = await provideFixes(`${folderName}/new/util.py`);
+
+    const create = actions.find((a) => a.title.endsWith("from template"))!;
+    assert.deepStrictEqual(create.command?.arguments?.slice(1), [0, true]);
+  });
+
+  test("Replaces a misspelled path with the closest file", async function () {
+    const actions = await provideFixes(`${folderName}/helpr.py`);
+
+    const change = actions.find((a) => a.title.startsWith("Change to"))!;
+    assert.ok(change.edit, "The fix edits the path");
+    const [[uri, [edit]]] = change.edit.entries();
+    assert.strictEqual(uri.toString(), documentUri!.toString());
+    assert.strictEqual(edit.newText, `${folderName}/helper.py`);
+    assert.strictEqual(edit.range.start.character, '# virtualInclude "'.length);
+  });
+
+  test("Doesn't search the workspace for the light bulb", async function () {
+    const findFiles = sinon.spy(vscode.workspace, "findFiles");
+
+    const actions = await provideFixes(
+      `${folderName}/helpr.py`,
+      vscode.CodeActionTriggerKind.Automatic,
+    );
+
+    sinon.assert.notCalled(findFiles);
+    assert.ok(actions.some((a) => a.title.startsWith("Create")));
+    assert.ok(!actions.some((a) => a.title.startsWith("Change to")));
+  });
+});
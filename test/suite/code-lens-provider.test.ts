@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { VirtualIncludeSourceCodeLensProvider } from "../../src/code-lens-provider";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Code Lens Provider Tests", function () {
+  this.timeout(10000);
+
+  let provider: VirtualIncludeSourceCodeLensProvider;
+  let includers: Map<string, Set<string>>;
+  let onDidChangeIndex: vscode.EventEmitter<void>;
+  let sourceUri: vscode.Uri;
+
+  setup(async function () {
+    includers = new Map();
+    onDidChangeIndex = new vscode.EventEmitter<void>();
+    const mockManager: any = {
+      includeIndex: { onDidChange: onDidChangeIndex.event },
+      getIncluders: (sourcePath: string) =>
+        new Set(includers.get(sourcePath) ?? []),
+    };
+    provider = new VirtualIncludeSourceCodeLensProvider(mockManager);
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+  });
+
+  teardown(async function () {
+    provider.dispose();
+    onDidChangeIndex.dispose();
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Shows the number of includers at the top of a source file", async function () {
+    includers.set(
+      sourceUri.fsPath,
+      new Set(["file:///project/a.md", "file:///project/b.md"]),
+    );
+    const document = await vscode.workspace.openTextDocument(sourceUri);
+
+    const [codeLens] = provider.provideCodeLenses(document);
+
+    assert.strictEqual(codeLens.range.start.line, 0);
+    assert.strictEqual(codeLens.command?.title, "Included by 2 files");
+    assert.strictEqual(
+      codeLens.command?.command,
+      "virtualInclude.showIncluders",
+    );
+    assert.deepStrictEqual(codeLens.command?.arguments, [sourceUri.fsPath]);
+  });
+
+  test("Shows nothing for files that are not included", async function () {
+    const document = await vscode.workspace.openTextDocument(sourceUri);
+
+    assert.deepStrictEqual(provider.provideCodeLenses(document), []);
+  });
+
+  test("Refreshes when the include index changes", function () {
+    let refreshed = false;
+    provider.onDidChangeCodeLenses(() => (refreshed = true));
+
+    onDidChangeIndex.fire();
+
+    assert.strictEqual(refreshed, true);
+  });
+});
@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import * as fs from "fs";
+import { VirtualIncludeCompletionProvider } from "../../src/completion-provider";
+import { Constants } from "../../src/constants";
+import {
+  createTestFile,
+  ensureTestWorkspace,
+  deleteTestFile,
+} from "../testUtils";
+
+suite("Completion Provider Tests", function () {
+  this.timeout(10000);
+
+  const provider = new VirtualIncludeCompletionProvider();
+  const folderName = `completion-${Math.random().toString(36).substring(2, 10)}`;
+  let folderPath: string;
+  let documentUri: vscode.Uri | undefined;
+
+  setup(function () {
+    ensureTestWorkspace();
+    folderPath = path.resolve(__dirname, "../../test-workspace", folderName);
+    fs.mkdirSync(path.join(folderPath, "nested"), { recursive: true });
+    fs.writeFileSync(path.join(folderPath, "helper.py"), "pass");
+    fs.writeFileSync(path.join(folderPath, "notes.unknown"), "notes");
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    if (documentUri) {
+      await deleteTestFile(documentUri);
+      documentUri = undefined;
+    }
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  /**
+   * Requests completions at the end of the first line of a new document.
+   */
+  async function complete(line: string) {
+    documentUri = await createTestFile(`${line}\nprint('main')`);
+    const document = await vscode.workspace.openTextDocument(documentUri);
+    return provider.provideCompletionItems(
+      document,
+      new vscode.Position(0, line.length),
+    );
+  }
+
+  test("Suggests the entries of the typed folder", async function () {
+    const items = await complete(`# virtualInclude '${folderName}/`);
+
+    assert.ok(items);
+    const labels = items.map((item) => item.label).sort();
+    assert.deepStrictEqual(labels, ["helper.py", "nested", "notes.unknown"]);
+
+    const nested = items.find((item) => item.label === "nested")!;
+    assert.strictEqual(nested.kind, vscode.CompletionItemKind.Folder);
+    assert.strictEqual(nested.insertText, "nested/");
+  });
+
+  test("Replaces the last segment of the typed path", async function () {
+    const line = `# virtualInclude "${folderName}/hel`;
+    const items = await complete(line);
+
+    const range = items!.find((item) => item.label === "helper.py")!
+      .range as vscode.Range;
+    assert.strictEqual(range.start.character, line.length - 3);
+    assert.strictEqual(range.end.character, line.length);
+  });
+
+  test("Only suggests known extensions when configured", async function () {
+    sinon.stub(Constants, "isCompletionKnownExtensionsOnly").returns(true);
+
+    const items = await complete(`# virtualInclude '${folderName}/`);
+
+    assert.deepStrictEqual(items!.map((item) => item.label).sort(), [
+      "helper.py",
+      "nested",
+    ]);
+  });
+
+  test("Doesn't suggest anything outside of include paths", async function () {
+    assert.strictEqual(await complete("# a comment with 'quotes"), undefined);
+    assert.strictEqual(
+      await complete(`# virtualInclude '${folderName}/helper.py' `),
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  ConfigFiles,
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeEngine,
+} from "../../src/core";
+
+const root = path.resolve("/repo");
+
+suite("Config Files Tests", () => {
+  // Files of an in-memory repository, by absolute path
+  let files: Record<string, string>;
+  const readFile = (filePath: string) => files[filePath] ?? null;
+
+  setup(() => {
+    files = {
+      [path.join(root, ".virtualinclude.json")]: JSON.stringify({
+        maxIncludeDepth: 2,
+        languageSettings: {
+          python: {
+            startMarkerTemplate: "# BEGIN",
+            endMarkerTemplate: "# END",
+          },
+        },
+        searchPaths: ["shared"],
+        pathAliases: { "@shared": "shared", "@docs": "/@/docs" },
+      }),
+      [path.join(root, "packages", "api", ".virtualincluderc")]:
+        '{\n  // Only the end marker differs in this package\n  "languageSettings": { "python": { "endMarkerTemplate": "# FIN" } },\n  "searchPaths": ["include"],\n  "expandNestedIncludes": "yes",\n}\n',
+    };
+  });
+
+  test("Finds the configuration files from the outermost to the nearest", () => {
+    const found = ConfigFiles.find(
+      path.join(root, "packages", "api", "src", "main.py"),
+      readFile,
+    );
+
+    assert.deepStrictEqual(
+      found.map((file) => file.path),
+      [
+        path.join(root, ".virtualinclude.json"),
+        path.join(root, "packages", "api", ".virtualincluderc"),
+      ],
+    );
+    assert.ok(found.every((file) => file.error === null));
+  });
+
+  test("Stops at a configuration file marked as root", () => {
+    files[path.join(root, "packages", "api", ".virtualinclude.json")] =
+      '{ "root": true }';
+
+    const found = ConfigFiles.find(
+      path.join(root, "packages", "api", "main.py"),
+      readFile,
+    );
+
+    assert.deepStrictEqual(
+      found.map((file) => file.path),
+      [path.join(root, "packages", "api", ".virtualinclude.json")],
+    );
+  });
+
+  test("Merges nearer files over outer files and the settings", () => {
+    const config = ConfigFiles.apply(
+      { ...DEFAULT_INCLUDE_CONFIG, searchPaths: [path.join(root, "vendor")] },
+      ConfigFiles.find(path.join(root, "packages", "api", "main.py"), readFile),
+    );
+
+    assert.strictEqual(config.maxIncludeDepth, 2);
+    assert.deepStrictEqual(config.languageSettings.python, {
+      startMarkerTemplate: "# BEGIN",
+      endMarkerTemplate: "# FIN",
+    });
+    assert.deepStrictEqual(config.searchPaths, [
+      path.join(root, "packages", "api", "include"),
+      path.join(root, "shared"),
+      path.join(root, "vendor"),
+    ]);
+    assert.deepStrictEqual(config.pathAliases, {
+      "@shared": path.join(root, "shared"),
+      "@docs": "/@/docs",
+    });
+    assert.strictEqual(
+      config.expandNestedIncludes,
+      false,
+      "Values of the wrong type should be ignored",
+    );
+    assert.strictEqual(DEFAULT_INCLUDE_CONFIG.maxIncludeDepth, 5);
+  });
+
+  test("Reports invalid files without applying them", () => {
+    files[path.join(root, "docs", ".virtualinclude.json")] = "{ nope";
+
+    const found = ConfigFiles.find(
+      path.join(root, "docs", "guide.md"),
+      readFile,
+    );
+
+    assert.strictEqual(found.length, 2);
+    assert.ok(found[1].error, "Parse error should be reported");
+    assert.strictEqual(
+      ConfigFiles.apply(DEFAULT_INCLUDE_CONFIG, found).maxIncludeDepth,
+      2,
+    );
+  });
+
+  test("Looks up bare include paths in the search paths", () => {
+    const sources: Record<string, string> = {
+      [path.join(root, "shared", "header.py")]: "HEADER = 1\n",
+      [path.join(root, "docs", "local.py")]: "LOCAL = 1\n",
+    };
+    const engine = new IncludeEngine(
+      { ...DEFAULT_INCLUDE_CONFIG, searchPaths: [path.join(root, "shared")] },
+      {
+        readFile: (filePath) => sources[filePath],
+        exists: (filePath) => filePath in sources,
+        findMatches: () => [],
+      },
+    );
+    const documentPath = path.join(root, "docs", "main.py");
+
+    assert.strictEqual(
+      engine.resolvePath(documentPath, "header.py"),
+      path.join(root, "shared", "header.py"),
+    );
+    assert.strictEqual(
+      engine.resolvePath(documentPath, "local.py"),
+      path.join(root, "docs", "local.py"),
+      "Files next to the document should win",
+    );
+    assert.strictEqual(
+      engine.resolvePath(documentPath, "./header.py"),
+      path.join(root, "docs", "header.py"),
+      "Explicitly relative paths should not be searched",
+    );
+  });
+});
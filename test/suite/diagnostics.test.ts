@@ -2,7 +2,10 @@ import * as assert from "assert";
 import * as vscode from "vscode";
 import * as sinon from "sinon";
 import * as path from "path";
+import * as fs from "fs";
 import { DiagnosticsManager } from "../../src/diagnostics";
+import { Constants } from "../../src/constants";
+import { DEFAULT_INCLUDE_CONFIG, IncludeEngine } from "../../src/core";
 import {
   createTestFile,
   ensureTestWorkspace,
@@ -220,4 +223,47 @@ suite("Diagnostics Tests", function () {
     await deleteTestFile(uri);
     await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
   });
+
+  test("Should tell hand-edited blocks apart from changed sources", async function () {
+    const config = { ...DEFAULT_INCLUDE_CONFIG, contentHashes: true };
+    sinon.stub(Constants, "getIncludeConfig").returns(config);
+
+    const sourceUri = await createTestFile("def helper():\n    pass");
+    const directive = `# virtualInclude "${path.basename(sourceUri.fsPath)}"\n`;
+
+    // Expand the include with hashes, then edit one block by hand and change the source
+    const expanded = new IncludeEngine(config).process(
+      directive,
+      path.join(path.dirname(sourceUri.fsPath), "main.py"),
+      "python",
+    ).text;
+    const editedUri = await createTestFile(
+      expanded.replace("pass", "return 42"),
+    );
+    const untouchedUri = await createTestFile(expanded);
+    fs.writeFileSync(sourceUri.fsPath, "def helper():\n    return 1");
+
+    diagnosticsManager.checkDocument(
+      await vscode.workspace.openTextDocument(editedUri),
+    );
+    diagnosticsManager.checkDocument(
+      await vscode.workspace.openTextDocument(untouchedUri),
+    );
+
+    const [, editedDiagnostics] = diagnosticCollectionStub.set.args[0];
+    const [, untouchedDiagnostics] = diagnosticCollectionStub.set.args[1];
+    assert.deepStrictEqual(
+      editedDiagnostics.map((d: vscode.Diagnostic) => d.code),
+      [Constants.DIAGNOSTIC_MODIFIED_BLOCK],
+    );
+    assert.deepStrictEqual(
+      untouchedDiagnostics.map((d: vscode.Diagnostic) => d.code),
+      [Constants.DIAGNOSTIC_SOURCE_CHANGED],
+    );
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await deleteTestFile(editedUri);
+    await deleteTestFile(untouchedUri);
+  });
 });
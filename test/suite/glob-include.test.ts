@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { GlobInclude } from "../../src/core";
+import {
+  createTestDocument,
+  ensureTestWorkspace,
+  waitForVirtualIncludeProcessed,
+} from "../testUtils";
+
+suite("Glob Include Tests", function () {
+  this.timeout(10000);
+
+  const snippetsDir = path.resolve(
+    __dirname,
+    "../../../test-workspace/snippets",
+  );
+
+  setup(function () {
+    ensureTestWorkspace();
+    fs.mkdirSync(snippetsDir, { recursive: true });
+    fs.writeFileSync(path.join(snippetsDir, "b.sql"), "SELECT 2;");
+    fs.writeFileSync(path.join(snippetsDir, "a.sql"), "SELECT 1;");
+    fs.writeFileSync(path.join(snippetsDir, "notes.txt"), "not included");
+  });
+
+  teardown(function () {
+    fs.rmSync(snippetsDir, { recursive: true, force: true });
+  });
+
+  test("Detects glob patterns", function () {
+    assert.strictEqual(GlobInclude.isGlobPattern("snippets/*.sql"), true);
+    assert.strictEqual(GlobInclude.isGlobPattern("snippets/a.sql"), false);
+  });
+
+  test("Splits a pattern into base directory and relative pattern", function () {
+    const pattern = path.join(snippetsDir, "**", "*.sql");
+    assert.deepStrictEqual(GlobInclude.splitPattern(pattern), {
+      baseDir: snippetsDir,
+      relativePattern: "**/*.sql",
+    });
+  });
+
+  test("Finds matching files in sorted order", function () {
+    assert.deepStrictEqual(
+      GlobInclude.findMatches(path.join(snippetsDir, "*.sql")),
+      [path.join(snippetsDir, "a.sql"), path.join(snippetsDir, "b.sql")],
+    );
+  });
+
+  test("Includes every matching file", async function () {
+    const editor = await createTestDocument(
+      "-- Main file\n-- virtualInclude 'snippets/*.sql'\n",
+      ".sql",
+    );
+
+    await vscode.commands.executeCommand("virtualInclude.process");
+
+    const processed = await waitForVirtualIncludeProcessed(editor);
+    assert.strictEqual(processed, true, "Virtual include was not processed");
+
+    const text = editor.document.getText();
+    assert.ok(
+      text.indexOf("SELECT 1;") < text.indexOf("SELECT 2;"),
+      "Files should be included in sorted order",
+    );
+    assert.ok(text.includes("SELECT 1;"), "First file not included");
+    assert.ok(!text.includes("not included"), "Non-matching file included");
+
+    // Clean up
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+  });
+});
@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import { VirtualIncludeHoverProvider } from "../../src/hover-provider";
+import { DocumentProcessor } from "../../src/document-processor";
+import { LanguageConfigurations } from "../../src/language-configuration";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Hover Provider Tests", function () {
+  this.timeout(10000);
+
+  let provider: VirtualIncludeHoverProvider;
+  let mockManager: any;
+  let sourceUri: vscode.Uri;
+  let mainUri: vscode.Uri;
+  let document: vscode.TextDocument;
+
+  setup(async function () {
+    mockManager = {
+      isPerformingUpdate: false,
+      uiHandler: { showWarningMessage: sinon.stub() },
+    };
+    mockManager.documentProcessor = new DocumentProcessor(mockManager);
+    provider = new VirtualIncludeHoverProvider(mockManager);
+
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    mainUri = await createTestFile(
+      [
+        `# virtualInclude '${path.basename(sourceUri.fsPath)}'`,
+        "# virtualIncludeStart - DO NOT EDIT CONTENT BELOW ",
+        "def helper():",
+        "    pass",
+        "# virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE ",
+        "print('main')",
+      ].join("\n"),
+      ".py",
+    );
+    document = await vscode.workspace.openTextDocument(mainUri);
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    await deleteTestFile(mainUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Shows the source details on the directive and inside the block", async function () {
+    for (const line of [0, 3]) {
+      const hover = await provider.provideHover(
+        document,
+        new vscode.Position(line, 0),
+      );
+
+      assert.ok(hover, `Expected a hover on line ${line}`);
+      const markdown = (hover.contents[0] as vscode.MarkdownString).value;
+      assert.ok(markdown.includes(sourceUri.fsPath));
+      assert.ok(markdown.includes("Lines: 2"));
+      assert.ok(markdown.includes("Up to date"));
+      assert.ok(markdown.includes("def helper():"));
+      assert.ok(markdown.includes("command:virtualInclude.detachInclude"));
+    }
+  });
+
+  test("Highlights the preview in the configured language of the source", async function () {
+    sinon
+      .stub(LanguageConfigurations, "getFileLanguages")
+      .returns({ ".h": "c" });
+    const headerUri = await createTestFile("int helper(void);", ".h");
+    const includingUri = await createTestFile(
+      `# virtualInclude '${path.basename(headerUri.fsPath)}'\n`,
+      ".py",
+    );
+
+    try {
+      const hover = await provider.provideHover(
+        await vscode.workspace.openTextDocument(includingUri),
+        new vscode.Position(0, 0),
+      );
+
+      assert.ok(hover, "Expected a hover on the directive");
+      const markdown = (hover.contents[0] as vscode.MarkdownString).value;
+      assert.ok(markdown.includes("```c\nint helper(void);"));
+    } finally {
+      await deleteTestFile(includingUri);
+      await deleteTestFile(headerUri);
+    }
+  });
+
+  test("Shows nothing outside of includes", async function () {
+    const hover = await provider.provideHover(
+      document,
+      new vscode.Position(5, 0),
+    );
+
+    assert.strictEqual(hover, undefined);
+  });
+
+  test("Detaching keeps the content without directive and markers", async function () {
+    await mockManager.documentProcessor.detachInclude(document, 0);
+
+    assert.strictEqual(
+      document.getText(),
+      "def helper():\n    pass\nprint('main')",
+    );
+    assert.strictEqual(mockManager.isPerformingUpdate, false);
+  });
+});
@@ -0,0 +1,383 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeEngine,
+  IncludeHost,
+} from "../../src/core";
+
+/**
+ * The engine runs without VSCode, so these tests use an in-memory host instead of test files.
+ */
+function createHost(files: Record<string, string>): IncludeHost {
+  return {
+    readFile: (filePath) => files[filePath],
+    exists: (filePath) => filePath in files,
+    findMatches: (pattern) =>
+      Object.keys(files)
+        .filter(
+          (filePath) =>
+            path.dirname(filePath) === path.dirname(pattern) &&
+            filePath.endsWith(path.extname(pattern)),
+        )
+        .sort(),
+  };
+}
+
+const root = path.resolve("/repo");
+const docPath = path.join(root, "main.py");
+const START = "# virtualIncludeStart - DO NOT EDIT CONTENT BELOW ";
+const END = "# virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE ";
+
+suite("Include Engine Tests", () => {
+  test("Expands an include below its directive", () => {
+    const engine = new IncludeEngine(
+      DEFAULT_INCLUDE_CONFIG,
+      createHost({ [path.join(root, "helper.py")]: "def helper():\n    pass" }),
+    );
+
+    const result = engine.process(
+      "    # virtualInclude 'helper.py'\nprint('main')",
+      docPath,
+      "python",
+    );
+
+    assert.strictEqual(result.changed, true);
+    assert.strictEqual(result.includes[0].status, "notExpanded");
+    assert.strictEqual(
+      result.text,
+      [
+        "    # virtualInclude 'helper.py'",
+        `    ${START}`,
+        "    def helper():",
+        "        pass",
+        `    ${END}`,
+        "",
+        "print('main')",
+      ].join("\n"),
+    );
+  });
+
+  test("Processing the expanded text again changes nothing", () => {
+    const engine = new IncludeEngine(
+      DEFAULT_INCLUDE_CONFIG,
+      createHost({ [path.join(root, "helper.py")]: "def helper():\n    pass" }),
+    );
+
+    const first = engine.process(
+      "# virtualInclude 'helper.py'\n",
+      docPath,
+      "python",
+    );
+    const second = engine.process(first.text, docPath, "python");
+
+    assert.strictEqual(second.changed, false);
+    assert.strictEqual(second.includes[0].status, "upToDate");
+    assert.deepStrictEqual(second.includes[0].block, {
+      startLine: 1,
+      endLine: 4,
+    });
+    assert.strictEqual(second.text, first.text);
+  });
+
+  test("Replaces a stale block with the source content", () => {
+    const engine = new IncludeEngine(
+      DEFAULT_INCLUDE_CONFIG,
+      createHost({ [path.join(root, "helper.py")]: "new = 2" }),
+    );
+
+    const text = `# virtualInclude 'helper.py'\n${START}\nold = 1\n${END}\nrest`;
+    const result = engine.process(text, docPath, "python");
+
+    assert.strictEqual(result.includes[0].status, "stale");
+    assert.deepStrictEqual(result.edits, [
+      { startLine: 1, endLine: 4, lines: [START, "new = 2", END] },
+    ]);
+    assert.strictEqual(
+      result.text,
+      `# virtualInclude 'helper.py'\n${START}\nnew = 2\n${END}\nrest`,
+    );
+  });
+
+  test("Applies region and line range selectors", () => {
+    const engine = new IncludeEngine(
+      DEFAULT_INCLUDE_CONFIG,
+      createHost({
+        [path.join(root, "utils.py")]:
+          "a = 1\n# region retry\nb = 2\nc = 3\nd = 4\n# endregion\n",
+      }),
+    );
+
+    const [directive] = engine.findDirectives(
+      "# virtualInclude 'utils.py#retry' lines=2-3",
+      docPath,
+      "python",
+    );
+    assert.strictEqual(directive.region, "retry");
+    assert.deepStrictEqual(directive.lineRange, { start: 2, end: 3 });
+
+    const resolution = engine.resolve(directive, docPath, "python");
+    assert.strictEqual(resolution.content, "c = 3\nd = 4");
+    assert.deepStrictEqual(resolution.problems, []);
+  });
+
+  test("Locates the selected lines in the source file", () => {
+    const engine = new IncludeEngine(DEFAULT_INCLUDE_CONFIG, {
+      ...createHost({}),
+      resolveSymbol: () => ({ start: 4, end: 9 }),
+    });
+    const content = "a = 1\n# region retry\nb = 2\nc = 3\nd = 4\n# endregion\n";
+    const sourcePath = path.join(root, "utils.py");
+    const locate = (directiveText: string) =>
+      engine.locate(
+        content,
+        engine.findDirectives(directiveText, docPath, "python")[0],
+        sourcePath,
+        "python",
+      );
+
+    assert.strictEqual(locate("# virtualInclude 'utils.py'"), null);
+    assert.deepStrictEqual(locate("# virtualInclude 'utils.py#retry'"), {
+      start: 3,
+      end: 5,
+    });
+    assert.deepStrictEqual(
+      locate("# virtualInclude 'utils.py#retry' lines=2-9"),
+      { start: 4, end: 5 },
+    );
+    assert.deepStrictEqual(locate("# virtualInclude 'utils.py' lines=2-3"), {
+      start: 2,
+      end: 3,
+    });
+    assert.deepStrictEqual(
+      locate("# virtualInclude 'utils.py' symbol=retry lines=2-3"),
+      { start: 5, end: 6 },
+    );
+  });
+
+  test("Reports problems instead of expanding", () => {
+    const engine = new IncludeEngine(
+      DEFAULT_INCLUDE_CONFIG,
+      createHost({ [path.join(root, "utils.py")]: "a = 1\n" }),
+    );
+
+    const result = engine.process(
+      [
+        "# virtualInclude 'missing.py'",
+        "# virtualInclude 'utils.py#retry'",
+        "# virtualInclude 'utils.py' lines=5-6",
+        "# virtualInclude 'utils.py' symbol=helper",
+        "# virtualInclude 'main.py'",
+      ].join("\n"),
+      docPath,
+      "python",
+    );
+
+    assert.strictEqual(result.changed, false);
+    assert.deepStrictEqual(
+      result.includes.map((include) => include.status),
+      [
+        "missing",
+        "invalidSelection",
+        "invalidSelection",
+        "invalidSelection",
+        "selfInclude",
+      ],
+    );
+    assert.deepStrictEqual(
+      result.includes.map((include) =>
+        include.resolution?.problems.map((problem) => problem.kind),
+      ),
+      [
+        ["missingFile"],
+        ["missingRegion"],
+        ["lineRangeOutside"],
+        ["unsupportedSelector"],
+        undefined,
+      ],
+    );
+  });
+
+  test("Resolves symbols through the host", () => {
+    const engine = new IncludeEngine(DEFAULT_INCLUDE_CONFIG, {
+      ...createHost({
+        [path.join(root, "user.py")]:
+          "class User:\n    def save(self):\n        return True\n",
+      }),
+      resolveSymbol: (_filePath, symbolPath) =>
+        symbolPath === "User.save" ? { start: 2, end: 3 } : null,
+    });
+
+    const [directive] = engine.findDirectives(
+      "# virtualInclude 'user.py' symbol=User.save",
+      docPath,
+      "python",
+    );
+
+    assert.strictEqual(
+      engine.resolve(directive, docPath, "python").content,
+      "def save(self):\n    return True",
+    );
+  });
+
+  test("Concatenates glob matches with file headers", () => {
+    const engine = new IncludeEngine(
+      { ...DEFAULT_INCLUDE_CONFIG, globFileHeaders: true },
+      createHost({
+        [path.join(root, "sql", "a.sql")]: "SELECT 1;\n",
+        [path.join(root, "sql", "b.sql")]: "SELECT 2;\n",
+      }),
+    );
+
+    const [directive] = engine.findDirectives(
+      "# virtualInclude 'sql/*.sql'",
+      docPath,
+      "python",
+    );
+
+    assert.strictEqual(directive.isGlob, true);
+    assert.strictEqual(
+      engine.resolve(directive, docPath, "python").content,
+      "-- sql/a.sql\nSELECT 1;\n-- sql/b.sql\nSELECT 2;",
+    );
+  });
+
+  test("Expands nested includes and detects cycles", () => {
+    const aPath = path.join(root, "a.py");
+    const bPath = path.join(root, "b.py");
+    const engine = new IncludeEngine(
+      { ...DEFAULT_INCLUDE_CONFIG, expandNestedIncludes: true },
+      createHost({
+        [aPath]: "a = 1\n# virtualInclude 'b.py'",
+        [bPath]: "b = 2\n# virtualInclude 'a.py'",
+      }),
+    );
+
+    const [directive] = engine.findDirectives(
+      "# virtualInclude 'a.py'",
+      docPath,
+      "python",
+    );
+    const resolution = engine.resolve(directive, docPath, "python");
+
+    assert.strictEqual(
+      resolution.content,
+      [
+        "a = 1",
+        "# virtualInclude-nested (edit source file to modify) 'b.py'",
+        "b = 2",
+        "# virtualInclude-nested (edit source file to modify) 'a.py'",
+      ].join("\n"),
+    );
+    assert.deepStrictEqual(resolution.nestedSources, [bPath]);
+    assert.deepStrictEqual(resolution.problems[0].cycle, [
+      docPath,
+      aPath,
+      bPath,
+      aPath,
+    ]);
+  });
+
+  test("Tells hand-edited blocks apart from stale ones with content hashes", () => {
+    const sourcePath = path.join(root, "helper.py");
+    const files = { [sourcePath]: "def helper():\n    pass" };
+    const engine = new IncludeEngine(
+      { ...DEFAULT_INCLUDE_CONFIG, contentHashes: true },
+      createHost(files),
+    );
+
+    const expanded = engine.process(
+      "# virtualInclude 'helper.py'\n",
+      docPath,
+      "python",
+    ).text;
+    assert.match(
+      expanded.split("\n")[1],
+      /^# virtualIncludeStart - DO NOT EDIT CONTENT BELOW \[content:[0-9a-f]{8} source:[0-9a-f]{8}\]$/,
+    );
+    assert.strictEqual(
+      engine.process(expanded, docPath, "python").includes[0].status,
+      "upToDate",
+    );
+
+    // An edited block is reported and left alone, unless overwriting is requested
+    const edited = expanded.replace("    pass", "    return 42");
+    const modified = engine.process(edited, docPath, "python");
+    assert.strictEqual(modified.includes[0].status, "modified");
+    assert.strictEqual(modified.changed, false);
+    assert.strictEqual(
+      engine.process(edited, docPath, "python", { overwriteModified: true })
+        .text,
+      expanded,
+    );
+
+    // A changed source makes the untouched block stale
+    files[sourcePath] = "def helper():\n    return 1";
+    const stale = engine.process(expanded, docPath, "python");
+    assert.strictEqual(stale.includes[0].status, "stale");
+    assert.ok(stale.text.includes("    return 1"));
+  });
+
+  test("Looks up bare includes in the search paths", () => {
+    const engine = new IncludeEngine(
+      {
+        ...DEFAULT_INCLUDE_CONFIG,
+        workspaceFolder: root,
+        searchPaths: ["include", "vendor/include"],
+      },
+      createHost({
+        [path.join(root, "vendor", "include", "header.py")]: "HEADER = 1",
+      }),
+    );
+
+    const result = engine.process(
+      "# virtualInclude 'header.py'\n# virtualInclude 'footer.py'\n",
+      docPath,
+      "python",
+    );
+
+    const [header, footer] = result.includes;
+    assert.strictEqual(header.status, "notExpanded");
+    assert.strictEqual(
+      header.directive.resolvedPath,
+      path.join(root, "vendor", "include", "header.py"),
+    );
+    assert.strictEqual(
+      header.directive.searchPath,
+      path.join(root, "vendor", "include"),
+    );
+    assert.strictEqual(footer.status, "missing");
+    assert.strictEqual(
+      footer.resolution?.problems[0].message,
+      `Cannot find included file: footer.py (looked for ${path.join(root, "footer.py")} and in the search paths ${path.join(root, "include")}, ${path.join(root, "vendor", "include")})`,
+    );
+  });
+
+  test("Fills the comment placeholders of the configured markers", () => {
+    const engine = new IncludeEngine(
+      {
+        ...DEFAULT_INCLUDE_CONFIG,
+        startMarker: "{{comment}} BEGIN INCLUDE{{commentEnd}}",
+        endMarker: "END INCLUDE",
+      },
+      createHost({ [path.join(root, "helper.css")]: "a {}" }),
+    );
+
+    const result = engine.process(
+      "<!-- virtualInclude 'helper.css' -->\n",
+      path.join(root, "page.html"),
+      "html",
+    );
+
+    assert.deepStrictEqual(result.text.split("\n").slice(1, 4), [
+      "/* BEGIN INCLUDE*/",
+      "a {}",
+      "/* END INCLUDE */",
+    ]);
+    assert.strictEqual(
+      engine.process(result.text, path.join(root, "page.html"), "html")
+        .includes[0].status,
+      "upToDate",
+    );
+  });
+});
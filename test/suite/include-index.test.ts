@@ -0,0 +1,159 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as path from "path";
+import * as sinon from "sinon";
+import { IncludeIndex } from "../../src/include-index";
+import { LanguageConfigurations } from "../../src/language-configuration";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Include Index Tests", function () {
+  this.timeout(20000);
+
+  let index: IncludeIndex;
+  let storage: Map<string, any>;
+  let memento: vscode.Memento;
+
+  setup(function () {
+    index = new IncludeIndex();
+    storage = new Map<string, any>();
+    memento = {
+      keys: () => [...storage.keys()],
+      get: (key: string) => storage.get(key),
+      update: async (key: string, value: any) => {
+        storage.set(key, value);
+      },
+    } as vscode.Memento;
+  });
+
+  teardown(function () {
+    sinon.restore();
+    index.dispose();
+  });
+
+  test("Tracks the sources of indexed files", function () {
+    const uri = vscode.Uri.file("/project/main.py");
+    index.indexText(
+      uri,
+      "# virtualInclude 'lib/a.py'\n# virtualInclude 'lib/b.py'\n",
+      "python",
+    );
+
+    assert.deepStrictEqual(
+      [...index.getIncluders(path.resolve("/project/lib/a.py"))],
+      [uri.toString()],
+    );
+
+    // Re-indexing replaces the old sources
+    index.indexText(uri, "# virtualInclude 'lib/b.py'\n", "python");
+    assert.strictEqual(
+      index.getIncluders(path.resolve("/project/lib/a.py")).size,
+      0,
+    );
+    assert.deepStrictEqual(index.getSources(uri), [
+      path.resolve("/project/lib/b.py"),
+    ]);
+
+    index.remove(uri);
+    assert.strictEqual(
+      index.getIncluders(path.resolve("/project/lib/b.py")).size,
+      0,
+    );
+  });
+
+  test("Indexes files in the workspace that were never opened", async function () {
+    const sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    const mainUri = await createTestFile(
+      `# virtualInclude '${path.basename(sourceUri.fsPath)}'\n`,
+      ".py",
+    );
+
+    try {
+      index.initialize(memento);
+      await index.whenReady();
+
+      assert.ok(
+        index.getIncluders(sourceUri.fsPath).has(mainUri.toString()),
+        "Unopened includer not indexed",
+      );
+    } finally {
+      await deleteTestFile(mainUri);
+      await deleteTestFile(sourceUri);
+    }
+  });
+
+  test("Parses unopened files with the languages of installed extensions", async function () {
+    sinon
+      .stub(LanguageConfigurations, "getFileLanguages")
+      .returns({ ".h": "c" });
+    const sourceUri = await createTestFile("int helper(void);", ".h");
+    const headerUri = await createTestFile(
+      `// virtualInclude '${path.basename(sourceUri.fsPath)}'\n`,
+      ".h",
+    );
+
+    try {
+      index.initialize(memento);
+      await index.whenReady();
+
+      assert.ok(
+        index.getIncluders(sourceUri.fsPath).has(headerUri.toString()),
+        "Unopened C header not indexed",
+      );
+    } finally {
+      await deleteTestFile(headerUri);
+      await deleteTestFile(sourceUri);
+    }
+  });
+
+  test("Restores the index persisted in workspace storage", async function () {
+    const sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    const mainUri = await createTestFile(
+      `# virtualInclude '${path.basename(sourceUri.fsPath)}'\n`,
+      ".py",
+    );
+
+    try {
+      index.initialize(memento);
+      await index.whenReady();
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      index.dispose();
+
+      assert.ok(storage.size > 0, "Index not persisted");
+
+      const restored = new IncludeIndex();
+      restored.initialize(memento);
+      assert.ok(
+        restored.getIncluders(sourceUri.fsPath).has(mainUri.toString()),
+        "Index not restored before the workspace scan",
+      );
+      restored.dispose();
+    } finally {
+      await deleteTestFile(mainUri);
+      await deleteTestFile(sourceUri);
+    }
+  });
+
+  test("Drops a persisted index built with other settings", async function () {
+    const mainUri = await createTestFile("print('main')\n", ".py");
+    const { mtime } = await vscode.workspace.fs.stat(mainUri);
+    storage.set("virtualInclude.includeIndex", {
+      version: 2,
+      configKey: "other settings",
+      files: { [mainUri.toString()]: { mtime, sources: ["/stale.py"] } },
+    });
+
+    try {
+      index.initialize(memento);
+      await index.whenReady();
+
+      assert.strictEqual(
+        index.getIncluders("/stale.py").size,
+        0,
+        "Sources resolved with other settings should not be kept",
+      );
+      assert.deepStrictEqual(index.getSources(mainUri), []);
+    } finally {
+      await deleteTestFile(mainUri);
+    }
+  });
+});
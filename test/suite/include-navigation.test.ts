@@ -0,0 +1,135 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as path from "path";
+import { VirtualIncludeReferenceProvider } from "../../src/include-navigation";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Include Navigation Tests", function () {
+  this.timeout(10000);
+
+  let provider: VirtualIncludeReferenceProvider;
+  let sourceUri: vscode.Uri;
+  let firstUri: vscode.Uri;
+  let secondUri: vscode.Uri;
+  // Source path (or glob pattern) → including file URIs
+  let includers: Map<string, string[]>;
+
+  setup(async function () {
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    const directive = `# virtualInclude '${path.basename(sourceUri.fsPath)}'`;
+    firstUri = await createTestFile(`${directive}\n`, ".py");
+    secondUri = await createTestFile(`print('main')\n${directive}\n`, ".py");
+
+    // The index knows the including files, without them being open
+    includers = new Map([
+      [sourceUri.fsPath, [firstUri.toString(), secondUri.toString()]],
+    ]);
+    const mockManager: any = {
+      includeIndex: { whenReady: () => Promise.resolve() },
+      getIncluders: (sourcePath: string) =>
+        new Set(includers.get(sourcePath) ?? []),
+      getIncludedSources: () => new Set(includers.keys()),
+    };
+    provider = new VirtualIncludeReferenceProvider(mockManager);
+  });
+
+  teardown(async function () {
+    await deleteTestFile(firstUri);
+    await deleteTestFile(secondUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Lists the directives including a source file", async function () {
+    const source = await vscode.workspace.openTextDocument(sourceUri);
+
+    const locations = await provider.provideReferences(
+      source,
+      new vscode.Position(0, 0),
+    );
+
+    assert.deepStrictEqual(
+      locations
+        .map((location) => [location.uri.toString(), location.range.start.line])
+        .sort(),
+      [
+        [firstUri.toString(), 0],
+        [secondUri.toString(), 1],
+      ].sort(),
+    );
+    assert.strictEqual(
+      locations[0].range.end.character - locations[0].range.start.character,
+      path.basename(sourceUri.fsPath).length,
+    );
+  });
+
+  test("Lists the other directives including the same source", async function () {
+    const first = await vscode.workspace.openTextDocument(firstUri);
+
+    const locations = await provider.provideReferences(
+      first,
+      new vscode.Position(0, 20),
+    );
+
+    assert.strictEqual(locations.length, 1);
+    assert.strictEqual(locations[0].uri.toString(), secondUri.toString());
+  });
+
+  test("Lists the includes of the region under the cursor", async function () {
+    const regionSourceUri = await createTestFile(
+      "import os\n# region first\nA = 1\n# endregion\n# region second\nB = 2\n# endregion\n",
+      ".py",
+    );
+    const name = path.basename(regionSourceUri.fsPath);
+    const regionsUri = await createTestFile(
+      `# virtualInclude '${name}#first'\n# virtualInclude '${name}#second'\n# virtualInclude '${name}'\n`,
+      ".py",
+    );
+    includers.set(regionSourceUri.fsPath, [regionsUri.toString()]);
+
+    try {
+      const source = await vscode.workspace.openTextDocument(regionSourceUri);
+      const linesAt = async (line: number) =>
+        (await provider.provideReferences(source, new vscode.Position(line, 0)))
+          .map((location) => location.range.start.line)
+          .sort();
+
+      assert.deepStrictEqual(await linesAt(2), [0]);
+      assert.deepStrictEqual(await linesAt(4), [1]);
+      assert.deepStrictEqual(
+        await linesAt(0),
+        [0, 1, 2],
+        "Outside the regions, every include of the file is listed",
+      );
+    } finally {
+      await deleteTestFile(regionsUri);
+      await deleteTestFile(regionSourceUri);
+    }
+  });
+
+  test("Lists the glob includes matching a source file", async function () {
+    const globUri = await createTestFile(
+      "# virtualInclude 'test-*.py'\n",
+      ".py",
+    );
+    includers.set(path.join(path.dirname(globUri.fsPath), "test-*.py"), [
+      globUri.toString(),
+    ]);
+
+    try {
+      const source = await vscode.workspace.openTextDocument(sourceUri);
+      const locations = await provider.provideReferences(
+        source,
+        new vscode.Position(0, 0),
+      );
+
+      assert.strictEqual(locations.length, 3);
+      assert.ok(
+        locations.some(
+          (location) => location.uri.toString() === globUri.toString(),
+        ),
+      );
+    } finally {
+      await deleteTestFile(globUri);
+    }
+  });
+});
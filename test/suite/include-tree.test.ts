@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as fs from "fs";
+import * as path from "path";
+import { IncludeTreeProvider } from "../../src/include-tree";
+import { DocumentProcessor } from "../../src/document-processor";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Include Tree Tests", function () {
+  this.timeout(10000);
+
+  let provider: IncludeTreeProvider;
+  let mockManager: any;
+  let onDidChange: vscode.EventEmitter<any>;
+  let sourceUri: vscode.Uri;
+  let mainUri: vscode.Uri;
+  let missingPath: string;
+
+  setup(async function () {
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    missingPath = path.join(path.dirname(sourceUri.fsPath), "missing.py");
+    mainUri = await createTestFile(
+      [
+        `# virtualInclude '${path.basename(sourceUri.fsPath)}'`,
+        "# virtualIncludeStart - DO NOT EDIT CONTENT BELOW ",
+        "def helper():",
+        "    pass",
+        "# virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE ",
+        "# virtualInclude 'missing.py'",
+      ].join("\n"),
+      ".py",
+    );
+
+    onDidChange = new vscode.EventEmitter<any>();
+    mockManager = {
+      onDidProcessDocument: onDidChange.event,
+      includeIndex: { onDidChange: onDidChange.event },
+      getIncludingFiles: () => new Set([mainUri.toString()]),
+      getIncludedSources: () => new Set([sourceUri.fsPath, missingPath]),
+      getIncluders: () => new Set([mainUri.toString()]),
+      workspaceProcessor: { processFiles: sinon.stub().resolves() },
+    };
+    mockManager.documentProcessor = new DocumentProcessor(mockManager);
+    provider = new IncludeTreeProvider(mockManager);
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    provider.dispose();
+    onDidChange.dispose();
+    await deleteTestFile(mainUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Lists documents with the status of their sources", async function () {
+    const [document] = await provider.getChildren();
+    assert.strictEqual(document.path, mainUri.fsPath);
+    assert.strictEqual(document.status, "missing");
+
+    const sources = await provider.getChildren(document);
+    assert.deepStrictEqual(
+      sources.map((source) => [source.path, source.status]).sort(),
+      [
+        [missingPath, "missing"],
+        [sourceUri.fsPath, "upToDate"],
+      ].sort(),
+    );
+  });
+
+  test("Lists sources with their includers in sources mode", async function () {
+    provider.toggleMode();
+
+    const sources = await provider.getChildren();
+    const source = sources.find((node) => node.path === sourceUri.fsPath)!;
+    assert.strictEqual(source.status, "upToDate");
+    assert.strictEqual(
+      sources.find((node) => node.path === missingPath)?.status,
+      "missing",
+    );
+
+    const [includer] = await provider.getChildren(source);
+    assert.strictEqual(includer.uri, mainUri.toString());
+  });
+
+  test("Shows the status as icon", function () {
+    const item = provider.getTreeItem({
+      path: sourceUri.fsPath,
+      isParent: false,
+      status: "stale",
+    });
+
+    assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, "sync");
+    assert.strictEqual(item.contextValue, "virtualInclude.file");
+  });
+
+  test("Processes a file again only when it or its sources changed", async function () {
+    const createEngine = sinon.spy(
+      mockManager.documentProcessor,
+      "createEngine",
+    );
+
+    await provider.getChildren();
+    onDidChange.fire(undefined);
+    await provider.getChildren();
+    assert.strictEqual(createEngine.callCount, 1);
+
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(sourceUri.fsPath, later, later);
+    await provider.getChildren();
+    assert.strictEqual(createEngine.callCount, 2);
+  });
+
+  test("Updates the includers of a source without opening editors", async function () {
+    const showTextDocument = sinon.spy(vscode.window, "showTextDocument");
+
+    await provider.update({
+      path: sourceUri.fsPath,
+      isParent: true,
+      status: "stale",
+    });
+
+    const [uris] = mockManager.workspaceProcessor.processFiles.args[0];
+    assert.deepStrictEqual(
+      uris.map((uri: vscode.Uri) => uri.toString()),
+      [mainUri.toString()],
+    );
+    sinon.assert.notCalled(showTextDocument);
+  });
+});
@@ -1,6 +1,8 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
 import * as path from "path";
+import { LanguageConfigurations } from "../../src/language-configuration";
+import { DEFAULT_INCLUDE_CONFIG, LanguageRules } from "../../src/core";
 import {
   createTestFile,
   createTestDocument,
@@ -61,4 +63,56 @@ suite("Language Support Tests", () => {
       }
     });
   });
+
+  test("Reads comment styles from the language configurations of extensions", function () {
+    LanguageConfigurations.reset();
+    const commentStyles = LanguageConfigurations.getCommentStyles();
+
+    assert.deepStrictEqual(commentStyles["dockerfile"], {
+      start: "#",
+      end: "",
+    });
+    assert.deepStrictEqual(commentStyles["scss"], { start: "//", end: "" });
+    assert.deepStrictEqual(commentStyles["markdown"], {
+      start: "<!--",
+      end: "-->",
+    });
+    assert.strictEqual(
+      LanguageConfigurations.getFileLanguages()["dockerfile"],
+      "dockerfile",
+    );
+  });
+
+  test("Prefers language settings and configurations over the built-in table", function () {
+    const rules = new LanguageRules({
+      ...DEFAULT_INCLUDE_CONFIG,
+      commentStyles: {
+        haskell: LanguageRules.commentStyleFromConfiguration({
+          lineComment: { comment: "--", noIndent: false },
+          blockComment: ["{-", "-}"],
+        })!,
+        python: { start: ";", end: "" },
+      },
+      languageSettings: {
+        python: { startMarkerTemplate: "# BEGIN" },
+      },
+    });
+
+    assert.deepStrictEqual(rules.getCommentStyle("haskell"), {
+      start: "--",
+      end: "",
+    });
+    assert.strictEqual(rules.getCommentStyle("toml").start, "#");
+    assert.strictEqual(
+      rules.getLanguageSettings("python").startMarkerTemplate,
+      "# BEGIN",
+    );
+    assert.strictEqual(
+      LanguageRules.commentStyleFromConfiguration({
+        blockComment: ["/*", "*/"],
+      })?.end,
+      "*/",
+    );
+    assert.strictEqual(LanguageRules.commentStyleFromConfiguration({}), null);
+  });
 });
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import { LanguageService } from "../../src/language-service";
+import { ContentExtractor } from "../../src/core";
+import {
+  createDiagnosticsManager,
+  createTestFile,
+  createTestDocument,
+  waitForVirtualIncludeProcessed,
+  deleteTestFile,
+} from "../testUtils";
+
+suite("Line Range Include Tests", function () {
+  this.timeout(10000);
+
+  teardown(function () {
+    sinon.restore();
+  });
+
+  test("Parses closed and open-ended line ranges", function () {
+    assert.deepStrictEqual(
+      LanguageService.getLineRange("# virtualInclude 'file.py' lines=10-42"),
+      { start: 10, end: 42 },
+    );
+    assert.deepStrictEqual(
+      LanguageService.getLineRange("# virtualInclude 'file.py' lines=10-"),
+      { start: 10, end: null },
+    );
+    assert.strictEqual(
+      LanguageService.getLineRange("# virtualInclude 'file.py'"),
+      null,
+    );
+  });
+
+  test("Line ranges can be combined with the 'with' syntax", function () {
+    const line = "{# virtualInclude 'file.lua' lines=2-3 with '{#' #}";
+    assert.strictEqual(LanguageService.getCommentStyleOverride(line), "{#");
+    assert.deepStrictEqual(LanguageService.getLineRange(line), {
+      start: 2,
+      end: 3,
+    });
+  });
+
+  test("Extracts only the selected lines", function () {
+    const content = "one\ntwo\nthree\nfour\n";
+    assert.strictEqual(
+      ContentExtractor.extractLines(content, { start: 2, end: 3 }),
+      "two\nthree",
+    );
+    assert.strictEqual(
+      ContentExtractor.extractLines(content, { start: 3, end: null }),
+      "three\nfour\n",
+    );
+    assert.strictEqual(
+      ContentExtractor.extractLines(content, { start: 4, end: 5 }),
+      null,
+    );
+  });
+
+  test("Includes only the selected lines of the source file", async function () {
+    const sourceContent = "line one\nline two\nline three\nline four";
+    const sourceUri = await createTestFile(sourceContent, ".py");
+    const sourcePath = path.basename(sourceUri.fsPath);
+
+    const mainContent = `# Main file\n# virtualInclude "${sourcePath}" lines=2-3\n`;
+    const editor = await createTestDocument(mainContent, ".py");
+
+    await vscode.commands.executeCommand("virtualInclude.process");
+
+    const processed = await waitForVirtualIncludeProcessed(editor);
+    assert.strictEqual(processed, true, "Virtual include was not processed");
+
+    const text = editor.document.getText();
+    assert.ok(text.includes("line two"), "Selected line not found");
+    assert.ok(text.includes("line three"), "Selected line not found");
+    assert.ok(!text.includes("line one"), "Line before range was included");
+    assert.ok(!text.includes("line four"), "Line after range was included");
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+  });
+
+  test("Should report diagnostics for ranges outside the source file", async function () {
+    const { diagnosticsManager, setDiagnostics } = createDiagnosticsManager();
+
+    const sourceUri = await createTestFile("only\ntwo lines", ".py");
+    const sourcePath = path.basename(sourceUri.fsPath);
+    const mainUri = await createTestFile(
+      `# virtualInclude "${sourcePath}" lines=5-10\n`,
+    );
+    const document = await vscode.workspace.openTextDocument(mainUri);
+
+    const issueCount = diagnosticsManager.checkDocument(document);
+    assert.strictEqual(issueCount, 1, "One diagnostic should be reported");
+
+    const [, diagnostics] = setDiagnostics.args[0];
+    assert.ok(
+      diagnostics[0].message.includes("Line range 5-10"),
+      "Diagnostic should mention the line range",
+    );
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await deleteTestFile(mainUri);
+  });
+});
@@ -0,0 +1,157 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  DEFAULT_INCLUDE_CONFIG,
+  IncludeEngine,
+  IncludeHost,
+} from "../../src/core";
+
+const root = path.resolve("/repo");
+const docPath = path.join(root, "main.py");
+const START = "# virtualIncludeStart - DO NOT EDIT CONTENT BELOW ";
+const END = "# virtualIncludeEnd - DO NOT EDIT CONTENT ABOVE ";
+
+const host: IncludeHost = {
+  readFile: () => "def helper():\n    pass",
+  exists: (filePath) => filePath === path.join(root, "helper.py"),
+  findMatches: () => [],
+};
+const engine = new IncludeEngine(DEFAULT_INCLUDE_CONFIG, host);
+
+/**
+ * Checks the markers of a document and applies the first fix of the problem on a line.
+ */
+function applyFix(text: string, line: number, title?: string): string {
+  const problem = engine
+    .checkMarkers(text, docPath, "python")
+    .find((p) => p.line === line)!;
+  const fix = title
+    ? problem.fixes.find((f) => f.title === title)!
+    : problem.fixes[0];
+  return IncludeEngine.applyEdits(text, fix.edits);
+}
+
+suite("Marker Checker Tests", () => {
+  test("Reports markers without a directive or matching marker", () => {
+    const text = [
+      "print('a')",
+      END,
+      START,
+      "orphaned content",
+      END,
+      "print('b')",
+      START,
+    ].join("\n");
+
+    const problems = engine.checkMarkers(text, docPath, "python");
+
+    assert.deepStrictEqual(
+      problems.map((p) => [p.kind, p.line]),
+      [
+        ["orphanedEndMarker", 1],
+        ["orphanedBlock", 2],
+        ["orphanedStartMarker", 6],
+      ],
+    );
+    assert.strictEqual(
+      applyFix(text, 2, "Remove markers and keep the content"),
+      ["print('a')", END, "orphaned content", "print('b')", START].join("\n"),
+    );
+    assert.strictEqual(
+      applyFix(text, 1),
+      ["print('a')", START, "orphaned content", END, "print('b')", START].join(
+        "\n",
+      ),
+    );
+  });
+
+  test("Leaves a block without end marker alone and offers to terminate it", () => {
+    const expanded = engine.process(
+      "# virtualInclude 'helper.py'\nprint('main')",
+      docPath,
+      "python",
+    ).text;
+    const text = expanded.replace(`${END}\n`, "");
+
+    const result = engine.process(text, docPath, "python");
+    assert.strictEqual(result.includes[0].status, "unterminated");
+    assert.strictEqual(result.changed, false);
+
+    const [problem] = engine.checkMarkers(text, docPath, "python");
+    assert.strictEqual(problem.kind, "unterminatedBlock");
+    assert.strictEqual(problem.line, 0);
+    assert.strictEqual(applyFix(text, 0), expanded);
+  });
+
+  test("Doesn't treat the blocks after an unterminated block as nested", () => {
+    const block = [START, "def helper():", "    pass", END];
+    const text = [
+      "# virtualInclude 'helper.py'",
+      START,
+      "stale = 1",
+      "# virtualInclude 'helper.py'",
+      ...block,
+      "print('main')",
+    ].join("\n");
+
+    assert.strictEqual(
+      engine.process(text, docPath, "python").includes[1].status,
+      "upToDate",
+    );
+    assert.deepStrictEqual(
+      engine.checkMarkers(text, docPath, "python").map((p) => [p.kind, p.line]),
+      [["unterminatedBlock", 0]],
+    );
+  });
+
+  test("Moves an include out of the block of another include", () => {
+    const nested = [
+      "# virtualInclude 'helper.py'",
+      START,
+      "def helper():",
+      "    pass",
+      END,
+    ];
+    const text = [
+      "# virtualInclude 'other.py'",
+      START,
+      ...nested,
+      END,
+      "print('main')",
+    ].join("\n");
+
+    const [problem] = engine.checkMarkers(text, docPath, "python");
+    assert.strictEqual(problem.kind, "nestedInclude");
+    assert.strictEqual(problem.line, 2);
+    assert.strictEqual(
+      applyFix(text, 2),
+      [
+        "# virtualInclude 'other.py'",
+        START,
+        END,
+        ...nested,
+        "print('main')",
+      ].join("\n"),
+    );
+  });
+
+  test("Accepts the blocks of a processed source inside a block", () => {
+    const text = [
+      "# virtualInclude 'helper.py'",
+      START,
+      "# virtualInclude-nested (edit source file to modify) 'other.py'",
+      START,
+      "other = 1",
+      END,
+      "def helper():",
+      "    pass",
+      END,
+    ].join("\n");
+
+    assert.deepStrictEqual(engine.checkMarkers(text, docPath, "python"), []);
+    assert.deepStrictEqual(
+      engine.process(text, docPath, "python").includes[0].block,
+      { startLine: 1, endLine: 8 },
+    );
+  });
+});
@@ -2,6 +2,7 @@ import * as assert from "assert";
 import * as vscode from "vscode";
 import * as path from "path";
 import {
+  createDiagnosticsManager,
   createTestFile,
   createTestDocument,
   waitForVirtualIncludeProcessed,
@@ -107,4 +108,104 @@ suite("Nested Includes Tests", () => {
     await deleteTestFile(deepUri);
     await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
   });
+
+  test("Nested includes are expanded recursively when enabled", async () => {
+    const config = vscode.workspace.getConfiguration("virtualInclude");
+    await config.update(
+      "expandNestedIncludes",
+      true,
+      vscode.ConfigurationTarget.Global,
+    );
+
+    try {
+      const deepContent =
+        'function deepHelper() {\n  return "I am deeply nested";\n}';
+      const deepUri = await createTestFile(deepContent, ".js");
+      const deepPath = path.basename(deepUri.fsPath);
+
+      const sourceContent = `// Source file\n  // virtualInclude "${deepPath}"\n\nfunction sourceHelper() {}`;
+      const sourceUri = await createTestFile(sourceContent, ".js");
+      const sourcePath = path.basename(sourceUri.fsPath);
+
+      const mainContent = `// Main file\n// virtualInclude "${sourcePath}"\n`;
+      const editor = await createTestDocument(mainContent, ".js");
+
+      await vscode.commands.executeCommand("virtualInclude.process");
+
+      const processed = await waitForVirtualIncludeProcessed(editor);
+      assert.strictEqual(processed, true, "Virtual include was not processed");
+
+      const text = editor.document.getText();
+      assert.ok(
+        text.includes("virtualInclude-nested"),
+        "Nested include directive was not neutralized",
+      );
+      assert.ok(
+        text.includes("  function deepHelper()"),
+        "Nested file content should be included with the directive's indentation",
+      );
+
+      // Clean up
+      await deleteTestFile(sourceUri);
+      await deleteTestFile(deepUri);
+      await vscode.commands.executeCommand(
+        "workbench.action.closeActiveEditor",
+      );
+    } finally {
+      await config.update(
+        "expandNestedIncludes",
+        undefined,
+        vscode.ConfigurationTarget.Global,
+      );
+    }
+  });
+
+  test("Include cycles are reported with the full cycle path", async () => {
+    const config = vscode.workspace.getConfiguration("virtualInclude");
+    await config.update(
+      "expandNestedIncludes",
+      true,
+      vscode.ConfigurationTarget.Global,
+    );
+
+    const { diagnosticsManager, setDiagnostics } = createDiagnosticsManager();
+
+    try {
+      // a.js includes b.js, which includes a.js again
+      const aUri = await createTestFile("", ".js");
+      const bUri = await createTestFile(
+        `// virtualInclude "${path.basename(aUri.fsPath)}"\n`,
+        ".js",
+      );
+      await vscode.workspace.fs.writeFile(
+        aUri,
+        Buffer.from(`// virtualInclude "${path.basename(bUri.fsPath)}"\n`),
+      );
+      const document = await vscode.workspace.openTextDocument(aUri);
+
+      const issueCount = diagnosticsManager.checkDocument(document);
+      assert.strictEqual(issueCount, 1, "One diagnostic should be reported");
+
+      const [, diagnostics] = setDiagnostics.args[0];
+      assert.ok(
+        diagnostics[0].message.startsWith("Include cycle detected:"),
+        "Diagnostic should report the cycle",
+      );
+      assert.strictEqual(
+        diagnostics[0].message.split(" → ").length,
+        3,
+        "Cycle path should list a → b → a",
+      );
+
+      // Clean up
+      await deleteTestFile(aUri);
+      await deleteTestFile(bUri);
+    } finally {
+      await config.update(
+        "expandNestedIncludes",
+        undefined,
+        vscode.ConfigurationTarget.Global,
+      );
+    }
+  });
 });
@@ -0,0 +1,143 @@
+import * as assert from "assert";
+import * as path from "path";
+import { PathResolver } from "../../src/core";
+
+const root = path.resolve("/repo");
+
+suite("Path Resolver Tests", () => {
+  test("Maps renamed files and the contents of renamed folders", () => {
+    const renames = [
+      {
+        oldPath: path.join(root, "lib", "a.py"),
+        newPath: path.join(root, "shared", "a.py"),
+      },
+      {
+        oldPath: path.join(root, "snippets"),
+        newPath: path.join(root, "fragments"),
+      },
+    ];
+
+    assert.strictEqual(
+      PathResolver.applyRenames(path.join(root, "lib", "a.py"), renames),
+      path.join(root, "shared", "a.py"),
+    );
+    assert.strictEqual(
+      PathResolver.applyRenames(path.join(root, "snippets", "x.sql"), renames),
+      path.join(root, "fragments", "x.sql"),
+    );
+    assert.strictEqual(
+      PathResolver.applyRenames(path.join(root, "snippets", "*.sql"), renames),
+      path.join(root, "fragments", "*.sql"),
+    );
+    assert.strictEqual(
+      PathResolver.applyRenames(path.join(root, "snippets2", "x.sql"), renames),
+      path.join(root, "snippets2", "x.sql"),
+    );
+  });
+
+  test("Resolves paths starting from workspace folders and aliases", () => {
+    const documentPath = path.join(root, "docs", "deep", "guide.md");
+    const roots = {
+      workspaceFolder: root,
+      workspaceFolders: { infra: path.resolve("/infra") },
+      pathAliases: {
+        "@shared": "libs/shared",
+        "@infra": "${workspaceFolder:infra}/modules",
+      },
+    };
+    const resolve = (includePath: string) =>
+      PathResolver.resolveIncludePath(documentPath, includePath, roots);
+
+    assert.strictEqual(
+      resolve("/@/shared/header.py#intro"),
+      path.join(root, "shared", "header.py"),
+    );
+    assert.strictEqual(
+      resolve("${workspaceFolder}/shared/header.py"),
+      path.join(root, "shared", "header.py"),
+    );
+    assert.strictEqual(
+      resolve("${workspaceFolder:infra}/main.tf"),
+      path.resolve("/infra", "main.tf"),
+    );
+    assert.strictEqual(
+      resolve("@shared/header.py"),
+      path.join(root, "libs", "shared", "header.py"),
+    );
+    assert.strictEqual(
+      resolve("@infra/vpc.tf"),
+      path.resolve("/infra", "modules", "vpc.tf"),
+    );
+    assert.strictEqual(
+      resolve("${workspaceFolder:unknown}/main.tf"),
+      path.join(root, "docs", "deep", "${workspaceFolder:unknown}", "main.tf"),
+      "Unknown roots should be resolved like relative paths",
+    );
+    assert.strictEqual(
+      PathResolver.toIncludePath(
+        path.join(root, "guide.md"),
+        path.join(root, "libs", "shared", "footer.py"),
+        "@shared/header.py#intro",
+        roots,
+      ),
+      "@shared/footer.py#intro",
+      "Rewritten paths should keep their alias",
+    );
+  });
+
+  test("Writes include paths in the style of the original path", () => {
+    const documentPath = path.join(root, "docs", "guide.md");
+    const sourcePath = path.join(root, "shared", "a.py");
+
+    assert.strictEqual(
+      PathResolver.toIncludePath(documentPath, sourcePath, "../lib/a.py"),
+      "../shared/a.py",
+    );
+    assert.strictEqual(
+      PathResolver.toIncludePath(
+        path.join(root, "guide.md"),
+        sourcePath,
+        "./lib/a.py#retry",
+      ),
+      "./shared/a.py#retry",
+    );
+    assert.strictEqual(
+      PathResolver.toIncludePath(
+        documentPath,
+        sourcePath,
+        path.join(root, "lib", "a.py"),
+      ),
+      sourcePath,
+    );
+  });
+
+  test("Finds the closest path to a missing file", () => {
+    const candidates = [
+      path.join(root, "lib", "helper.py"),
+      path.join(root, "tests", "helper.py"),
+      path.join(root, "lib", "parser.py"),
+    ];
+
+    assert.strictEqual(
+      PathResolver.findClosestPath(
+        path.join(root, "lib", "helpr.py"),
+        candidates,
+      ),
+      path.join(root, "lib", "helper.py"),
+    );
+    assert.strictEqual(
+      PathResolver.findClosestPath(
+        path.join(root, "test", "Helper.py"),
+        candidates,
+      ),
+      path.join(root, "tests", "helper.py"),
+    );
+    assert.strictEqual(
+      PathResolver.findClosestPath(
+        path.join(root, "lib", "unrelated.py"),
+        candidates,
+      ),
+      null,
+    );
+  });
+});
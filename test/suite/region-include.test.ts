@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import { LanguageService } from "../../src/language-service";
+import { ContentExtractor } from "../../src/core";
+import {
+  createDiagnosticsManager,
+  createTestFile,
+  createTestDocument,
+  waitForVirtualIncludeProcessed,
+  deleteTestFile,
+} from "../testUtils";
+
+suite("Region Include Tests", function () {
+  this.timeout(10000);
+
+  const markers = { start: "region", end: "endregion" };
+
+  teardown(function () {
+    sinon.restore();
+  });
+
+  test("Splits the region selector off the include path", function () {
+    assert.deepStrictEqual(LanguageService.splitRegion("utils.py#retry"), {
+      filePath: "utils.py",
+      region: "retry",
+    });
+    assert.deepStrictEqual(LanguageService.splitRegion("utils.py"), {
+      filePath: "utils.py",
+      region: null,
+    });
+  });
+
+  test("Extracts and dedents a named region", function () {
+    const content = [
+      "class Client:",
+      "    # region retry-logic",
+      "    def retry(self):",
+      "        pass",
+      "    # endregion",
+    ].join("\n");
+
+    assert.strictEqual(
+      ContentExtractor.extractRegion(
+        content,
+        "retry-logic",
+        { start: "#", end: "" },
+        markers,
+      ),
+      "def retry(self):\n    pass",
+    );
+  });
+
+  test("Handles nested regions and VS Code style markers", function () {
+    const content = [
+      "//#region outer",
+      "a();",
+      "// #region inner",
+      "b();",
+      "// #endregion",
+      "c();",
+      "//#endregion",
+    ].join("\n");
+
+    assert.strictEqual(
+      ContentExtractor.extractRegion(
+        content,
+        "outer",
+        { start: "//", end: "" },
+        markers,
+      ),
+      "a();\n// #region inner\nb();\n// #endregion\nc();",
+    );
+    assert.strictEqual(
+      ContentExtractor.extractRegion(
+        content,
+        "missing",
+        { start: "//", end: "" },
+        markers,
+      ),
+      null,
+    );
+  });
+
+  test("Includes only the named region of the source file", async function () {
+    const sourceContent =
+      "before = 1\n# region settings\nvalue = 42\n# endregion\nafter = 2";
+    const sourceUri = await createTestFile(sourceContent, ".py");
+    const sourcePath = path.basename(sourceUri.fsPath);
+
+    const mainContent = `# Main file\n# virtualInclude "${sourcePath}#settings"\n`;
+    const editor = await createTestDocument(mainContent, ".py");
+
+    await vscode.commands.executeCommand("virtualInclude.process");
+
+    const processed = await waitForVirtualIncludeProcessed(editor);
+    assert.strictEqual(processed, true, "Virtual include was not processed");
+
+    const text = editor.document.getText();
+    assert.ok(text.includes("value = 42"), "Region content not found");
+    assert.ok(!text.includes("before = 1"), "Content before region included");
+    assert.ok(!text.includes("after = 2"), "Content after region included");
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+  });
+
+  test("Should report diagnostics for missing regions", async function () {
+    const { diagnosticsManager, setDiagnostics } = createDiagnosticsManager();
+
+    const sourceUri = await createTestFile("value = 42", ".py");
+    const sourcePath = path.basename(sourceUri.fsPath);
+    const mainUri = await createTestFile(
+      `# virtualInclude "${sourcePath}#missing"\n`,
+    );
+    const document = await vscode.workspace.openTextDocument(mainUri);
+
+    const issueCount = diagnosticsManager.checkDocument(document);
+    assert.strictEqual(issueCount, 1, "One diagnostic should be reported");
+
+    const [, diagnostics] = setDiagnostics.args[0];
+    assert.ok(
+      diagnostics[0].message.includes('Cannot find region "missing"'),
+      "Diagnostic should mention the missing region",
+    );
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await deleteTestFile(mainUri);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import { RenameHandler } from "../../src/rename-handler";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Rename Handler Tests", function () {
+  this.timeout(10000);
+
+  let handler: RenameHandler;
+  let mockManager: any;
+  let sourceUri: vscode.Uri;
+  let mainUri: vscode.Uri;
+
+  setup(async function () {
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    mainUri = await createTestFile(
+      `# virtualInclude './${path.basename(sourceUri.fsPath)}'\n`,
+      ".py",
+    );
+
+    mockManager = {
+      processDocument: sinon.stub().resolves(),
+      autoProcessDocument: sinon.stub().resolves(),
+      includeIndex: { whenReady: () => Promise.resolve() },
+      getIncludedSources: () => new Set([sourceUri.fsPath]),
+      getIncludingFiles: () => new Set([mainUri.toString()]),
+      getIncluders: () => new Set([mainUri.toString()]),
+    };
+    handler = new RenameHandler(mockManager);
+  });
+
+  teardown(async function () {
+    await deleteTestFile(mainUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Rewrites directives pointing at a renamed source", async function () {
+    const newUri = vscode.Uri.file(
+      path.join(path.dirname(sourceUri.fsPath), "shared", "helper.py"),
+    );
+
+    const workspaceEdit = await handler.createRenameEdit([
+      { oldUri: sourceUri, newUri },
+    ]);
+
+    const [[uri, [edit]]] = workspaceEdit.entries();
+    assert.strictEqual(uri.toString(), mainUri.toString());
+    assert.strictEqual(edit.newText, "./shared/helper.py");
+    assert.strictEqual(edit.range.start.character, "# virtualInclude '".length);
+  });
+
+  test("Rewrites directives of a moved including file", async function () {
+    const newUri = vscode.Uri.file(
+      path.join(
+        path.dirname(mainUri.fsPath),
+        "docs",
+        path.basename(mainUri.fsPath),
+      ),
+    );
+
+    const workspaceEdit = await handler.createRenameEdit([
+      { oldUri: mainUri, newUri },
+    ]);
+
+    const [[, [edit]]] = workspaceEdit.entries();
+    assert.strictEqual(edit.newText, `../${path.basename(sourceUri.fsPath)}`);
+  });
+
+  test("Leaves directives alone for unrelated renames", async function () {
+    const otherUri = vscode.Uri.file(
+      path.join(path.dirname(sourceUri.fsPath), "unrelated.py"),
+    );
+
+    const workspaceEdit = await handler.createRenameEdit([
+      { oldUri: otherUri, newUri: vscode.Uri.file(otherUri.fsPath + ".bak") },
+    ]);
+
+    assert.strictEqual(workspaceEdit.size, 0);
+  });
+
+  test("Leaves the includes of renamed files to the autoProcess setting", async function () {
+    const editor = await vscode.window.showTextDocument(
+      await vscode.workspace.openTextDocument(mainUri),
+    );
+
+    try {
+      await handler.handleRenamed([{ oldUri: sourceUri, newUri: sourceUri }]);
+
+      sinon.assert.calledOnceWithExactly(
+        mockManager.autoProcessDocument,
+        editor,
+        false,
+      );
+      sinon.assert.notCalled(mockManager.processDocument);
+    } finally {
+      await vscode.commands.executeCommand(
+        "workbench.action.closeActiveEditor",
+      );
+    }
+  });
+});
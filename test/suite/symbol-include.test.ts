@@ -0,0 +1,76 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as path from "path";
+import { LanguageService } from "../../src/language-service";
+import { SymbolResolver } from "../../src/symbol-resolver";
+import {
+  createTestFile,
+  createTestDocument,
+  waitForVirtualIncludeProcessed,
+  deleteTestFile,
+} from "../testUtils";
+
+suite("Symbol Include Tests", function () {
+  // Symbol providers need the language extension to start, which can take a while
+  this.timeout(20000);
+
+  const sourceContent = [
+    "class User {",
+    "  save() {",
+    '    return "saved";',
+    "  }",
+    "",
+    "  remove() {",
+    '    return "removed";',
+    "  }",
+    "}",
+  ].join("\n");
+
+  test("Parses the symbol selector", function () {
+    assert.strictEqual(
+      LanguageService.getSymbolPath(
+        "# virtualInclude 'models/user.py' symbol=User.save",
+      ),
+      "User.save",
+    );
+    assert.strictEqual(
+      LanguageService.getSymbolPath("# virtualInclude 'models/user.py'"),
+      null,
+    );
+  });
+
+  test("Resolves the range of a nested symbol", async function () {
+    const sourceUri = await createTestFile(sourceContent, ".js");
+    await vscode.workspace.openTextDocument(sourceUri);
+
+    const range = await SymbolResolver.findSymbolRange(sourceUri, "User.save");
+    assert.ok(range, "Symbol range not found");
+    assert.strictEqual(range!.start.line, 1, "Symbol should start at line 1");
+    assert.strictEqual(range!.end.line, 3, "Symbol should end at line 3");
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Includes only the selected symbol", async function () {
+    const sourceUri = await createTestFile(sourceContent, ".js");
+    const sourcePath = path.basename(sourceUri.fsPath);
+
+    const mainContent = `// Main file\n// virtualInclude "${sourcePath}" symbol=User.save\n`;
+    const editor = await createTestDocument(mainContent, ".js");
+
+    await vscode.commands.executeCommand("virtualInclude.process");
+
+    const processed = await waitForVirtualIncludeProcessed(editor, 10000);
+    assert.strictEqual(processed, true, "Virtual include was not processed");
+
+    const text = editor.document.getText();
+    assert.ok(text.includes('return "saved"'), "Symbol content not found");
+    assert.ok(!text.includes("remove()"), "Other symbols were included");
+    assert.ok(!text.includes("class User"), "Enclosing class was included");
+
+    // Clean up
+    await deleteTestFile(sourceUri);
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+  });
+});
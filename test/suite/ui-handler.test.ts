@@ -49,6 +49,8 @@ suite("UI Handler Tests", function () {
     // Create a mock manager with the necessary properties
     mockManager = {
       sourceToDocuments: new Map<string, Set<string>>(),
+      getIncluders: (sourcePath: string) =>
+        mockManager.sourceToDocuments.get(sourcePath) ?? new Set<string>(),
     };
 
     // Create the UI handler with the mock manager
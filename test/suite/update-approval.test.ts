@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import { UpdateApproval } from "../../src/update-approval";
+import { DocumentProcessor } from "../../src/document-processor";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Update Approval Tests", function () {
+  this.timeout(10000);
+
+  let approval: UpdateApproval;
+  let mockManager: any;
+  let applyEditStub: sinon.SinonStub;
+  let sourceUri: vscode.Uri;
+  let mainUri: vscode.Uri;
+  let document: vscode.TextDocument;
+
+  setup(async function () {
+    mockManager = { isPerformingUpdate: false };
+    mockManager.documentProcessor = new DocumentProcessor(mockManager);
+    approval = new UpdateApproval(mockManager);
+
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    mainUri = await createTestFile(
+      `# virtualInclude '${path.basename(sourceUri.fsPath)}'\n`,
+      ".py",
+    );
+    document = await vscode.workspace.openTextDocument(mainUri);
+
+    // Closing the refactor preview without applying anything rejects all updates
+    applyEditStub = sinon.stub(vscode.workspace, "applyEdit").resolves(false);
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    await deleteTestFile(mainUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  /**
+   * Processes the test document like the DocumentProcessor does.
+   */
+  async function processDocument() {
+    const engine = await mockManager.documentProcessor.createEngine(document);
+    return engine.process(
+      document.getText(),
+      document.uri.fsPath,
+      document.languageId,
+    );
+  }
+
+  test("Stages every update for confirmation", async function () {
+    await approval.confirmUpdates(document, (await processDocument()).includes);
+
+    assert.strictEqual(applyEditStub.callCount, 1);
+    const workspaceEdit: vscode.WorkspaceEdit = applyEditStub.args[0][0];
+    const [[uri, edits]] = workspaceEdit.entries();
+    assert.strictEqual(uri.toString(), mainUri.toString());
+    assert.strictEqual(edits.length, 1);
+    assert.ok(edits[0].newText.includes("def helper():"));
+    assert.strictEqual(mockManager.isPerformingUpdate, false);
+  });
+
+  test("Only lifts edit protection for the previewed updates", async function () {
+    const otherDocument = await vscode.workspace.openTextDocument(sourceUri);
+    const change = (
+      changed: vscode.TextDocument,
+      range: vscode.Range,
+      text: string,
+    ): vscode.TextDocumentChangeEvent => ({
+      document: changed,
+      contentChanges: [{ range, text, rangeOffset: 0, rangeLength: 0 }],
+      reason: undefined,
+    });
+
+    applyEditStub.callsFake(async (workspaceEdit: vscode.WorkspaceEdit) => {
+      const [[, [update]]] = workspaceEdit.entries();
+      assert.strictEqual(mockManager.isPerformingUpdate, false);
+      assert.strictEqual(
+        approval.isPreviewedChange(
+          change(document, update.range, update.newText),
+        ),
+        true,
+      );
+      assert.strictEqual(
+        approval.isPreviewedChange(
+          change(document, update.range, "typed by the user"),
+        ),
+        false,
+        "Other edits of the previewed document stay protected",
+      );
+      assert.strictEqual(
+        approval.isPreviewedChange(
+          change(otherDocument, update.range, update.newText),
+        ),
+        false,
+      );
+      return false;
+    });
+
+    await approval.confirmUpdates(document, (await processDocument()).includes);
+
+    assert.strictEqual(applyEditStub.callCount, 1);
+  });
+
+  test("Doesn't offer a rejected update again until asked to", async function () {
+    const { includes } = await processDocument();
+
+    await approval.confirmUpdates(document, includes);
+    await approval.confirmUpdates(document, includes);
+    assert.strictEqual(
+      applyEditStub.callCount,
+      1,
+      "Rejected update should not be previewed again",
+    );
+
+    approval.clearRejections(document);
+    await approval.confirmUpdates(document, includes);
+    assert.strictEqual(applyEditStub.callCount, 2);
+  });
+});
@@ -2,6 +2,7 @@ import * as assert from "assert";
 import * as vscode from "vscode";
 import * as sinon from "sinon";
 import { VirtualIncludeManager } from "../../src/virtual-include-manager";
+import { Constants } from "../../src/constants";
 import { createTestFile, deleteTestFile } from "../testUtils";
 
 suite("Virtual Include Manager Tests", function () {
@@ -28,7 +29,6 @@ suite("Virtual Include Manager Tests", function () {
 
     editProtectionStub = {
       handleProtectedEdits: sinon.stub().resolves(),
-      preventProtectedEdits: sinon.stub().resolves([]),
     };
 
     uiHandlerStub = {
@@ -122,6 +122,29 @@ suite("Virtual Include Manager Tests", function () {
     await deleteTestFile(uri2);
   });
 
+  test("Should only check documents when auto-processing is disabled", async function () {
+    const uri = await createTestFile("# Test content");
+    const editor = await vscode.window.showTextDocument(
+      await vscode.workspace.openTextDocument(uri),
+    );
+    sinon.stub(Constants, "isAutoProcessEnabled").returns(false);
+    const checkDocumentStub = sinon
+      .stub(manager["_diagnostics"], "checkDocument")
+      .returns(0);
+
+    await manager.autoProcessDocument(editor);
+
+    sinon.assert.notCalled(documentProcessorStub.processDocument);
+    sinon.assert.calledOnceWithExactly(checkDocumentStub, editor.document);
+
+    // Explicit processing still expands includes
+    await manager.processDocument(editor);
+    sinon.assert.calledOnce(documentProcessorStub.processDocument);
+
+    // Clean up
+    await deleteTestFile(uri);
+  });
+
   test("Should properly initialize and dispose resources", function () {
     // Create an array to track disposables
     const mockDisposable = { dispose: sinon.stub() };
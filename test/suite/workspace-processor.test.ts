@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as path from "path";
+import * as fs from "fs";
+import { Constants } from "../../src/constants";
+import { createTestFile, deleteTestFile } from "../testUtils";
+
+suite("Workspace Processor Tests", function () {
+  this.timeout(20000);
+
+  let sourceUri: vscode.Uri;
+  let mainUri: vscode.Uri;
+
+  setup(async function () {
+    sourceUri = await createTestFile("def helper():\n    pass", ".py");
+    mainUri = await createTestFile(
+      `# virtualInclude '${path.basename(sourceUri.fsPath)}'\nprint('main')\n`,
+      ".py",
+    );
+
+    // Only scan the file of this test, and keep notifications out of the way
+    sinon.stub(Constants, "getWorkspaceGlobs").returns({
+      include: `test-workspace/${path.basename(mainUri.fsPath)}`,
+      exclude: Constants.DEFAULT_WORKSPACE_EXCLUDE,
+    });
+    sinon.stub(vscode.window, "showInformationMessage");
+    sinon.stub(vscode.window, "showWarningMessage");
+  });
+
+  teardown(async function () {
+    sinon.restore();
+    await deleteTestFile(mainUri);
+    await deleteTestFile(sourceUri);
+  });
+
+  test("Updates files that are not open in an editor", async function () {
+    await vscode.commands.executeCommand("virtualInclude.processWorkspace");
+
+    const content = fs.readFileSync(mainUri.fsPath, "utf8");
+    assert.ok(content.includes("def helper():"), "Content not included");
+    assert.ok(
+      content.includes("# virtualIncludeStart - DO NOT EDIT CONTENT BELOW"),
+      "Start marker not written",
+    );
+  });
+
+  test("Reports a summary of the update", async function () {
+    await vscode.commands.executeCommand("virtualInclude.processWorkspace");
+
+    const showInfo = vscode.window.showInformationMessage as sinon.SinonStub;
+    assert.ok(
+      showInfo.calledWithMatch("Updated 1 include(s) in 1 file(s)"),
+      "Summary not shown",
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
+import * as sinon from "sinon";
 import * as path from "path";
 import * as fs from "fs";
+import { DiagnosticsManager } from "../src/diagnostics";
 
 // Create a test directory in the extension directory
 const testWorkspacePath = path.resolve(__dirname, "../../test-workspace");
@@ -56,6 +58,28 @@ export async function createTestDocument(
   return vscode.window.showTextDocument(document);
 }
 
+/**
+ * Creates a DiagnosticsManager whose diagnostics are recorded by a stub instead of being shown,
+ * so a test can check them with the arguments of its calls
+ */
+export function createDiagnosticsManager(): {
+  diagnosticsManager: DiagnosticsManager;
+  setDiagnostics: sinon.SinonStub;
+} {
+  const collection =
+    vscode.languages.createDiagnosticCollection("virtualInclude");
+  const setDiagnostics = sinon.stub();
+  sinon.replace(collection, "set", setDiagnostics);
+
+  const createStub = sinon
+    .stub(vscode.languages, "createDiagnosticCollection")
+    .returns(collection);
+  const diagnosticsManager = new DiagnosticsManager();
+  createStub.restore();
+
+  return { diagnosticsManager, setDiagnostics };
+}
+
 /**
  * A helper to wait for a specific condition
  */
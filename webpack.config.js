@@ -3,6 +3,7 @@
 "use strict";
 
 const path = require("path");
+const webpack = require("webpack");
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -41,4 +42,19 @@ const extensionConfig = {
   },
 };
 
-module.exports = [extensionConfig];
+/** @type WebpackConfig */
+const cliConfig = {
+  ...extensionConfig,
+  entry: "./src/cli.ts",
+  output: {
+    path: path.resolve(__dirname, "dist"),
+    filename: "cli.js",
+    libraryTarget: "commonjs2",
+  },
+  externals: {},
+  plugins: [
+    new webpack.BannerPlugin({ banner: "#!/usr/bin/env node", raw: true }),
+  ],
+};
+
+module.exports = [extensionConfig, cliConfig];